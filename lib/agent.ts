@@ -0,0 +1,992 @@
+// model-agnostic generative loop for computer use
+import type {
+  BetaContentBlockParam,
+  BetaMessageParam,
+  BetaToolResultBlockParam,
+} from '@anthropic-ai/sdk/resources/beta/index.mjs';
+import { Computer } from '../lib';
+import type { Action } from '../lib/schemas/action';
+import {
+  defaultSamplingOptions,
+  type DefaultSamplingOptions,
+} from '../lib/types';
+import { logger } from '../lib/utils/logger';
+import {
+  makeToolResult,
+  toolVersionOf,
+  toolVersions,
+  type ToolVersion,
+} from './tools';
+import { ToolResult } from '../lib/types';
+import { UnknownAction } from './schemas/unknownAction';
+import type { ToolResultBlockParam } from '@anthropic-ai/sdk/resources/index.mjs';
+import {
+  AbortError,
+  ComputerTimeoutError,
+  NotConnectedError,
+  StreamInterruptedError,
+} from './errors';
+import {
+  defaultModelPricing,
+  estimateCost,
+  type ModelPricing,
+} from './utils/pricing';
+import {
+  resolveProvider,
+  type ModelProvider,
+  type ModelRequest,
+  type ModelResponse,
+  type ModelStopReason,
+  type ModelUsage,
+  type ProviderName,
+  type ToolCall,
+} from './providers';
+import { iterate } from './utils/asyncQueue';
+import { buildSystemPrompt, type SystemPromptOptions } from './systemPrompt';
+import { CoordinateScaler, type ScalingOption } from './scaling';
+import {
+  defaultToolConcurrency,
+  ToolCallScheduler,
+  type ToolConcurrency,
+} from './toolScheduling';
+import {
+  formatIssues,
+  validateJsonSchema,
+  zodIssues,
+  type JsonSchema,
+  type ValidationIssue,
+} from './utils/validation';
+import type { ZodTypeAny } from 'zod';
+import { BashAction } from './schemas/bashAction';
+import {
+  ComputerAction,
+  ComputerAction20250124,
+} from './schemas/computerActions';
+import { EditAction } from './schemas/editActions';
+import { applyPolicy, type ActionPolicy, type PolicyOutcome } from './policy';
+import {
+  pruneImages,
+  truncateText,
+  summarizeHistory,
+  type ContextStrategy,
+} from './context';
+
+/**
+ * Limits that end a run gracefully once exceeded. Token and cost budgets are cumulative
+ * and checked before each model request, so a run may overshoot by one response.
+ * @property maxSteps - Maximum number of model requests
+ * @property maxInputTokens - Maximum input tokens summed over the run, including prompt cache reads and writes
+ * @property maxOutputTokens - Maximum output tokens summed over the run
+ * @property maxDurationMs - Maximum wall time of the run
+ * @property maxCostUsd - Maximum estimated cost; the run throws a TypeError if the model has no price
+ * @property pricing - Prices added to defaultModelPricing, or replacing its entries, to estimate cost
+ */
+export interface RunLimits {
+  maxSteps?: number;
+  maxInputTokens?: number;
+  maxOutputTokens?: number;
+  maxDurationMs?: number;
+  maxCostUsd?: number;
+  pricing?: Record<string, ModelPricing>;
+}
+
+/**
+ * Returned by beforeToolCall to change what happens to a tool call
+ * - modify: execute the tool call with different arguments
+ * - veto: skip the tool call and send the model an error result with the reason
+ */
+export type ToolCallDecision =
+  | { type: 'modify'; input: Record<string, unknown> }
+  | { type: 'veto'; reason?: string };
+
+/**
+ * Summary of a single model request and the tool calls it produced
+ * @property iteration - 1-based index of the model request
+ * @property text - Text of the model's response
+ * @property toolCalls - Tool calls executed in this iteration
+ * @property usage - Token usage of this model request
+ * @property stopReason - Why the model stopped
+ */
+export interface IterationSummary {
+  iteration: number;
+  text: string;
+  toolCalls: ToolCallRecord[];
+  usage: ModelUsage;
+  stopReason: ModelStopReason;
+}
+
+/**
+ * Callbacks invoked as a run progresses. Each hook is awaited before the run continues,
+ * and an error thrown from a hook ends the run.
+ * @property onAssistantText - Called with the text of each model response
+ * @property onTextDelta - Called with each chunk of assistant text when streaming
+ * @property beforeToolCall - Called before each tool call; may modify or veto it
+ * @property afterToolCall - Called with the record of each completed tool call
+ * @property onIteration - Called after each model request and its tool calls
+ * @property onFinish - Called with the run result before it is returned
+ */
+export interface AgentHooks {
+  onAssistantText?: (text: string, iteration: number) => void | Promise<void>;
+  onTextDelta?: (delta: string, iteration: number) => void;
+  beforeToolCall?: (
+    toolCall: ToolCall,
+    iteration: number
+  ) =>
+    | ToolCallDecision
+    | void
+    | undefined
+    | Promise<ToolCallDecision | void | undefined>;
+  afterToolCall?: (
+    record: ToolCallRecord,
+    iteration: number
+  ) => void | Promise<void>;
+  onIteration?: (summary: IterationSummary) => void | Promise<void>;
+  onFinish?: (result: RunResult) => void | Promise<void>;
+}
+
+/**
+ * Events yielded by useComputerStream() and Computer.doStream(), mirroring the hooks
+ */
+export type AgentEvent =
+  | { type: 'text_delta'; delta: string; iteration: number }
+  | { type: 'assistant_text'; text: string; iteration: number }
+  | { type: 'tool_call'; toolCall: ToolCall; iteration: number }
+  | { type: 'tool_result'; record: ToolCallRecord; iteration: number }
+  | { type: 'iteration'; summary: IterationSummary }
+  | { type: 'finish'; result: RunResult };
+
+/**
+ * Options accepted by useComputer()
+ * @property signal - Aborts the whole objective, including the in-flight model request and tool call
+ * @property provider - Model provider driving the loop, defaults to 'anthropic'
+ * @property hooks - Callbacks for observing and steering the run
+ * @property stream - Stream model replies when the provider supports it, surfacing text as it
+ * arrives and executing each tool call as soon as its input is complete
+ * @property context - How the conversation is kept within the model's context window
+ * @property promptCaching - Mark the system prompt, tools and recent history as cacheable
+ * @property system - Extra instructions appended to the system prompt, or options for building it
+ * @property messages - Earlier conversation to continue; the task is added as the next user message
+ * @property pollFollowUps - Called after each model response; returned messages are sent to the
+ * model before it continues, and keep the run going if it would otherwise have finished
+ * @property parallelToolCalls - Run independent tool calls of a turn concurrently, using
+ * defaultToolConcurrency or a custom classifier. GUI actions, bash commands and edits stay serialized.
+ * @property policy - Rules that allow, deny or ask for approval of each tool call; denied calls
+ * are reported to the model as failed tool results
+ * @property scaling - Screen size shown to the model. Screenshots are downscaled to it and the
+ * model's coordinates are mapped back to the real display; defaults to 'auto'
+ */
+export interface UseComputerOptions
+  extends Partial<Omit<DefaultSamplingOptions, 'system'>>,
+    RunLimits {
+  signal?: AbortSignal;
+  provider?: ProviderName | ModelProvider;
+  hooks?: AgentHooks;
+  stream?: boolean;
+  context?: ContextStrategy;
+  promptCaching?: boolean;
+  system?: string | SystemPromptOptions;
+  pollFollowUps?: () => string[];
+  parallelToolCalls?: boolean | ((toolCall: ToolCall) => ToolConcurrency);
+  policy?: ActionPolicy;
+  scaling?: ScalingOption;
+}
+
+/**
+ * Record of a single tool call made during a run
+ * @property id - ID of the tool call, as assigned by the provider
+ * @property name - Name of the tool
+ * @property input - Arguments the tool call was executed with
+ * @property result - Tool result block sent back to the model
+ * @property toolResult - Raw result from the computer, or null for MCP, invalid and vetoed tool calls
+ * @property isError - Whether the tool call failed
+ * @property vetoed - Whether beforeToolCall or the policy rejected the tool call
+ * @property durationMs - Wall time spent executing the tool call
+ */
+export interface ToolCallRecord extends ToolCall {
+  result: BetaToolResultBlockParam;
+  toolResult: ToolResult | null;
+  isError: boolean;
+  vetoed: boolean;
+  durationMs: number;
+}
+
+/**
+ * Token usage summed over every model request in a run. input_tokens excludes tokens read
+ * from or written to the prompt cache.
+ */
+export interface RunUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+}
+
+/**
+ * Why a run ended: the model's own stop reason, or the limit that was exceeded
+ */
+export type RunStopReason =
+  | ModelStopReason
+  | 'max_steps'
+  | 'max_input_tokens'
+  | 'max_output_tokens'
+  | 'max_duration'
+  | 'max_cost';
+
+/**
+ * Structured result of useComputer() and Computer.do()
+ * @property finalText - Text of the model's last response
+ * @property messages - Full conversation transcript, including tool results
+ * @property toolCalls - Every tool call made, in order
+ * @property usage - Token usage summed over every model request
+ * @property stopReason - Why the run ended
+ * @property iterations - Number of model requests made
+ * @property durationMs - Wall time of the run
+ * @property estimatedCost - Estimated cost in USD, or null if the model has no known price
+ */
+export interface RunResult {
+  finalText: string;
+  messages: BetaMessageParam[];
+  toolCalls: ToolCallRecord[];
+  usage: RunUsage;
+  stopReason: RunStopReason;
+  iterations: number;
+  durationMs: number;
+  estimatedCost: number | null;
+}
+
+/**
+ * Throws an AbortError if the signal has been aborted
+ * @param signal - Optional abort signal
+ */
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new AbortError('Objective was aborted');
+  }
+}
+
+/**
+ * Adds text to the conversation as a user message, merging it into the last message if that
+ * is already from the user (e.g. tool results) so that roles keep alternating
+ * @param messages - Conversation, updated in place
+ * @param text - Text to add
+ */
+function appendUserText(messages: BetaMessageParam[], text: string) {
+  const last = messages.at(-1);
+  if (last?.role !== 'user') {
+    messages.push({ role: 'user', content: text });
+    return;
+  }
+  const content: BetaContentBlockParam[] =
+    typeof last.content === 'string'
+      ? [{ type: 'text', text: last.content }]
+      : [...last.content];
+  messages[messages.length - 1] = {
+    ...last,
+    content: [...content, { type: 'text', text }],
+  };
+}
+
+/**
+ * Adds the usage of a single model request to the run's usage
+ * @param total - Usage of the run so far, updated in place
+ * @param usage - Usage of a model request
+ */
+function addUsage(total: RunUsage, usage: ModelUsage) {
+  total.input_tokens += usage.input_tokens;
+  total.output_tokens += usage.output_tokens;
+  total.cache_creation_input_tokens += usage.cache_creation_input_tokens ?? 0;
+  total.cache_read_input_tokens += usage.cache_read_input_tokens ?? 0;
+}
+
+/**
+ * Returns the first limit a run has exceeded, or null if it may continue
+ * @param limits - Configured run limits
+ * @param state - Progress of the run so far
+ */
+function exceededLimit(
+  limits: RunLimits,
+  state: {
+    iterations: number;
+    usage: RunUsage;
+    durationMs: number;
+    cost: number | null;
+  }
+): RunStopReason {
+  if (limits.maxSteps !== undefined && state.iterations >= limits.maxSteps)
+    return 'max_steps';
+  if (
+    limits.maxInputTokens !== undefined &&
+    state.usage.input_tokens +
+      state.usage.cache_creation_input_tokens +
+      state.usage.cache_read_input_tokens >=
+      limits.maxInputTokens
+  )
+    return 'max_input_tokens';
+  if (
+    limits.maxOutputTokens !== undefined &&
+    state.usage.output_tokens >= limits.maxOutputTokens
+  )
+    return 'max_output_tokens';
+  if (
+    limits.maxDurationMs !== undefined &&
+    state.durationMs >= limits.maxDurationMs
+  )
+    return 'max_duration';
+  if (
+    limits.maxCostUsd !== undefined &&
+    state.cost !== null &&
+    state.cost >= limits.maxCostUsd
+  )
+    return 'max_cost';
+  return null;
+}
+
+/**
+ * Executes a task on a remote computer using a model provider and handles the interaction loop
+ *
+ * This function:
+ * 1. Sets up a conversation with the model using the provided task
+ * 2. Manages a loop of:
+ *    - Getting responses from the model
+ *    - Executing any tools/commands the model requests
+ *    - Feeding results back to the model
+ * 3. Continues until the model has no more actions to take
+ *
+ * @param task - The natural language instruction/task to give to the model
+ * @param computer - Instance of Computer class for executing commands
+ * @param options - Optional provider, sampling parameters (model, tokens etc), run limits and an abort signal
+ * @returns {Promise<RunResult>} The final text, transcript, tool calls and usage of the run
+ * @throws {AbortError} If options.signal is aborted before the task completes
+ */
+export async function useComputer(
+  task: string,
+  computer: Computer,
+  options?: UseComputerOptions
+): Promise<RunResult> {
+  // Merge provided options with defaults
+  const {
+    signal,
+    provider: providerOption,
+    hooks = {},
+    stream = false,
+    context = {},
+    promptCaching = false,
+    system,
+    messages: history = [],
+    pollFollowUps,
+    parallelToolCalls = false,
+    policy,
+    scaling = 'auto',
+    maxSteps,
+    maxInputTokens,
+    maxOutputTokens,
+    maxDurationMs,
+    maxCostUsd,
+    pricing: pricingOverrides,
+    ...samplingOverrides
+  } = options ?? {};
+  const limits: RunLimits = {
+    maxSteps,
+    maxInputTokens,
+    maxOutputTokens,
+    maxDurationMs,
+    maxCostUsd,
+  };
+  const samplingOptions = { ...defaultSamplingOptions, ...samplingOverrides };
+  // Without a model, Claude runs use the model made for the computer's tool version
+  const provider = resolveProvider(
+    providerOption ?? 'anthropic',
+    samplingOverrides.model ??
+      ((providerOption ?? 'anthropic') === 'anthropic'
+        ? toolVersions[computer.toolVersion].model
+        : undefined)
+  );
+  const pricing = { ...defaultModelPricing, ...pricingOverrides };
+  if (maxCostUsd !== undefined && !pricing[provider.model]) {
+    throw new TypeError(
+      `maxCostUsd needs a price for model '${provider.model}'; add it with the pricing option`
+    );
+  }
+
+  // Initialize conversation history, copying messages so that the caller's are not modified
+  let messages: BetaMessageParam[] = history.map((message) => ({
+    ...message,
+  }));
+
+  // Add the user's task as the next message
+  appendUserText(messages, task);
+  pollFollowUps?.().forEach((text) => appendUserText(messages, text));
+
+  // Scale between the real display and the screen size shown to the model
+  const metadata = await computer.getMetadata();
+  const scaler =
+    metadata.display_width && metadata.display_height
+      ? CoordinateScaler.forScreen(
+          { width: metadata.display_width, height: metadata.display_height },
+          scaling
+        )
+      : null;
+
+  // Create system prompt that tells the model about the computer's capabilities
+  const systemPrompt = buildSystemPrompt(
+    scaler
+      ? {
+          ...metadata,
+          display_width: scaler.model.width,
+          display_height: scaler.model.height,
+        }
+      : metadata,
+    system
+  );
+
+  // Verify computer connection before proceeding
+  if (!computer.isConnected()) {
+    throw new NotConnectedError('Failed to connect to computer');
+  }
+
+  // Log available tools for debugging; the computer tool advertises the model's screen size
+  const tools = (await computer.listAllTools()).map((tool) =>
+    scaler && 'display_width_px' in tool
+      ? {
+          ...tool,
+          display_width_px: scaler.model.width,
+          display_height_px: scaler.model.height,
+        }
+      : tool
+  );
+  logger.info({ tools, provider: provider.name }, 'Tools enabled: ');
+
+  // Schemas for validating the model's arguments: the built-in actions of the tool version
+  // in use, and the input schemas of the MCP tools
+  const toolSchemas: ToolSchemas = {
+    actions: actionSchemas[toolVersionOf(tools) ?? '20241022'],
+    inputs: new Map(
+      tools.flatMap((tool): [string, JsonSchema][] =>
+        'input_schema' in tool
+          ? [[tool.name, tool.input_schema as JsonSchema]]
+          : []
+      )
+    ),
+  };
+
+  // Accumulate statistics for the run result
+  const startedAt = Date.now();
+  const toolCalls: ToolCallRecord[] = [];
+  const usage: RunUsage = {
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0,
+  };
+  let finalText = '';
+  let stopReason: RunStopReason = null;
+  let iterations = 0;
+  let lastInputTokens = 0;
+
+  // Main interaction loop
+  while (true) {
+    throwIfAborted(signal);
+
+    // End the run gracefully once a limit is exceeded
+    const limitReason = exceededLimit(limits, {
+      iterations,
+      usage,
+      durationMs: Date.now() - startedAt,
+      cost: estimateCost(provider.model, usage, pricing),
+    });
+    if (limitReason) {
+      logger.warn({ limit: limitReason, usage, iterations }, 'Limit reached: ');
+      stopReason = limitReason;
+      break;
+    }
+    iterations++;
+    const iteration = iterations;
+
+    // Keep the conversation within the context window
+    if (context.maxImages !== undefined) {
+      const removed = pruneImages(messages, context.maxImages);
+      if (removed > 0) logger.debug({ removed }, 'Pruned images: ');
+    }
+    if (
+      context.summarize &&
+      lastInputTokens > context.summarize.thresholdTokens
+    ) {
+      const compacted = await summarizeHistory(
+        task,
+        messages,
+        context.summarize.provider ?? provider,
+        context.summarize,
+        signal
+      ).catch((error) => {
+        throwIfAborted(signal);
+        throw error;
+      });
+      if (compacted) {
+        logger.info(
+          { before: messages.length, after: compacted.messages.length },
+          'Summarized older turns: '
+        );
+        messages = compacted.messages;
+        addUsage(usage, compacted.usage);
+      }
+    }
+
+    // Tool calls run one at a time in the order they are dispatched, unless parallel tool
+    // calls are enabled. When streaming, they are dispatched as soon as their input is
+    // complete, while the reply is still arriving. Results keep the dispatch order.
+    const dispatched: Promise<ToolCallRecord>[] = [];
+    const scheduler = new ToolCallScheduler(
+      parallelToolCalls === true
+        ? defaultToolConcurrency
+        : parallelToolCalls || undefined
+    );
+    const dispatch = (toolCall: ToolCall) => {
+      const record = scheduler.schedule(toolCall, () =>
+        runToolCall(toolCall, iteration, computer, {
+          hooks,
+          policy,
+          signal,
+          maxOutputChars: context.maxToolOutputChars,
+          toolSchemas,
+          scaler,
+        })
+      );
+      dispatched.push(record);
+    };
+
+    // Get the model's response
+    const request: ModelRequest = {
+      system: systemPrompt,
+      messages: messages,
+      tools: tools,
+      maxTokens: samplingOptions.max_tokens,
+      temperature: samplingOptions.temperature,
+      signal,
+      promptCaching,
+    };
+    const streaming = stream && provider.streamMessage !== undefined;
+    let response: ModelResponse;
+    try {
+      response = streaming
+        ? await provider.streamMessage!(request, {
+            onTextDelta: (delta) => hooks.onTextDelta?.(delta, iteration),
+            onToolCall: dispatch,
+          })
+        : await provider.createMessage(request);
+    } catch (error) {
+      await Promise.allSettled(dispatched);
+      throwIfAborted(signal);
+      // Tool calls that already ran must be answered, so keep the part of the reply that
+      // completed and let the model continue from there
+      if (
+        error instanceof StreamInterruptedError &&
+        error.partial &&
+        dispatched.length > 0
+      ) {
+        logger.warn(
+          { error: error.message },
+          'Continuing after interrupted stream: '
+        );
+        response = error.partial;
+      } else {
+        throw error;
+      }
+    }
+
+    addUsage(usage, response.usage);
+    lastInputTokens =
+      response.usage.input_tokens +
+      (response.usage.cache_creation_input_tokens ?? 0) +
+      (response.usage.cache_read_input_tokens ?? 0);
+    finalText = response.text;
+    stopReason = response.stopReason;
+
+    // Log the model's text response
+    if (response.text) {
+      logger.info(response.text, 'Assistant: ');
+      await hooks.onAssistantText?.(response.text, iterations);
+    }
+
+    // Store results from any tools the model uses
+    if (!streaming) {
+      response.toolCalls.forEach(dispatch);
+    }
+    const iterationToolCalls = await Promise.all(dispatched);
+    const toolResults = iterationToolCalls.map((record) => record.result);
+    toolCalls.push(...iterationToolCalls);
+
+    await hooks.onIteration?.({
+      iteration: iterations,
+      text: response.text,
+      toolCalls: iterationToolCalls,
+      usage: response.usage,
+      stopReason: response.stopReason,
+    });
+
+    // Add the model's response to conversation history
+    messages.push({
+      role: 'assistant',
+      content: response.content,
+    });
+
+    // If tools were used, add results to conversation
+    if (toolResults.length > 0) {
+      messages.push({
+        role: 'user',
+        content: toolResults,
+      });
+    }
+
+    // Add any follow-up messages, otherwise end the conversation loop once no tools were used
+    const followUps = pollFollowUps?.() ?? [];
+    followUps.forEach((text) => appendUserText(messages, text));
+    if (followUps.length > 0) {
+      logger.info({ followUps }, 'Follow-up messages: ');
+    } else if (toolResults.length === 0) {
+      break;
+    }
+  }
+
+  // Clean up and log completion
+  const estimatedCost = estimateCost(provider.model, usage, pricing);
+  logger.info({ task, usage, iterations, estimatedCost }, 'Completed task: ');
+
+  const result: RunResult = {
+    finalText,
+    messages,
+    toolCalls,
+    usage,
+    stopReason,
+    iterations,
+    durationMs: Date.now() - startedAt,
+    estimatedCost,
+  };
+  await hooks.onFinish?.(result);
+  return result;
+}
+
+/**
+ * Runs useComputer() and yields its progress as AgentEvents. The run does not wait for the
+ * consumer; hooks passed in options are still called, and beforeToolCall can still veto.
+ * Leaving the loop early aborts the run.
+ *
+ * @example
+ * for await (const event of useComputerStream('open a terminal', computer)) {
+ *   if (event.type === 'assistant_text') console.log(event.text);
+ * }
+ *
+ * @param task - The natural language instruction/task to give to the model
+ * @param computer - Instance of Computer class for executing commands
+ * @param options - Same options as useComputer()
+ * @returns An async generator of events, returning the RunResult once finished
+ * @throws {AbortError} If options.signal is aborted before the task completes
+ */
+export async function* useComputerStream(
+  task: string,
+  computer: Computer,
+  options: UseComputerOptions = {}
+): AsyncGenerator<AgentEvent, RunResult, undefined> {
+  const { hooks = {} } = options;
+  return yield* iterate<AgentEvent, RunResult>(
+    (push, signal) =>
+      useComputer(task, computer, {
+        ...options,
+        signal,
+        hooks: {
+          onTextDelta: (delta, iteration) => {
+            push({ type: 'text_delta', delta, iteration });
+            hooks.onTextDelta?.(delta, iteration);
+          },
+          onAssistantText: async (text, iteration) => {
+            push({ type: 'assistant_text', text, iteration });
+            await hooks.onAssistantText?.(text, iteration);
+          },
+          beforeToolCall: async (toolCall, iteration) => {
+            push({ type: 'tool_call', toolCall, iteration });
+            return hooks.beforeToolCall?.(toolCall, iteration);
+          },
+          afterToolCall: async (record, iteration) => {
+            push({ type: 'tool_result', record, iteration });
+            await hooks.afterToolCall?.(record, iteration);
+          },
+          onIteration: async (summary) => {
+            push({ type: 'iteration', summary });
+            await hooks.onIteration?.(summary);
+          },
+          onFinish: async (result) => {
+            push({ type: 'finish', result });
+            await hooks.onFinish?.(result);
+          },
+        },
+      }),
+    options.signal
+  );
+}
+
+/**
+ * Runs a single tool call through the beforeToolCall hook, the action policy and the
+ * afterToolCall hook. The policy checks the input the call is executed with.
+ *
+ * @param toolCall - The tool call requested by the model
+ * @param iteration - Index of the model request that produced the tool call
+ * @param computer - The computer instance
+ * @param options - Hooks and policy of the run, the abort signal, the tool output limit, the
+ * schemas tool input is validated against and the coordinate scaler
+ * @returns {Promise<ToolCallRecord>} - The tool call together with its result and duration
+ */
+async function runToolCall(
+  toolCall: ToolCall,
+  iteration: number,
+  computer: Computer,
+  options: {
+    hooks: AgentHooks;
+    policy?: ActionPolicy;
+    signal?: AbortSignal;
+    maxOutputChars?: number;
+    toolSchemas?: ToolSchemas;
+    scaler?: CoordinateScaler | null;
+  }
+): Promise<ToolCallRecord> {
+  const { hooks, policy, signal, ...execution } = options;
+  throwIfAborted(signal);
+  const decision = await hooks.beforeToolCall?.(toolCall, iteration);
+  throwIfAborted(signal);
+
+  let record: ToolCallRecord;
+  if (decision?.type === 'veto') {
+    logger.info({ command: toolCall, decision }, 'Vetoed: ');
+    record = vetoedToolCall(toolCall, decision.reason);
+  } else {
+    const executed =
+      decision?.type === 'modify'
+        ? { ...toolCall, input: decision.input }
+        : toolCall;
+    const outcome: PolicyOutcome = policy
+      ? await applyPolicy(policy, executed)
+      : { allowed: true };
+    throwIfAborted(signal);
+
+    if (!outcome.allowed) {
+      logger.info({ command: executed, outcome }, 'Denied by policy: ');
+      record = vetoedToolCall(executed, outcome.reason);
+    } else {
+      // Execute and log tool usage
+      logger.info({ command: executed }, 'Executing: ');
+      record = await handleToolRequest(executed, computer, {
+        signal,
+        ...execution,
+      });
+    }
+  }
+
+  await hooks.afterToolCall?.(record, iteration);
+  return record;
+}
+
+/**
+ * Builds the record of a tool call vetoed by beforeToolCall or denied by the policy
+ * @param toolCall - The rejected tool call
+ * @param reason - Reason given to the model
+ */
+function vetoedToolCall(toolCall: ToolCall, reason?: string): ToolCallRecord {
+  const error = reason
+    ? `Tool call was rejected: ${reason}`
+    : 'Tool call was rejected';
+  return {
+    ...toolCall,
+    result: makeToolResult(
+      { output: null, error, base64_image: null, system: null },
+      toolCall.id
+    ),
+    toolResult: null,
+    isError: true,
+    vetoed: true,
+    durationMs: 0,
+  };
+}
+
+/**
+ * Schemas used to validate tool input from the model
+ * @property actions - Action schemas of the built-in tools, by tool name
+ * @property inputs - JSON Schemas of the MCP tools, by tool name
+ */
+interface ToolSchemas {
+  actions: Map<string, ZodTypeAny>;
+  inputs: Map<string, JsonSchema>;
+}
+
+/**
+ * Action schemas of the built-in tools for each tool version, by tool name
+ */
+const actionSchemas: Record<ToolVersion, Map<string, ZodTypeAny>> = {
+  '20241022': new Map<string, ZodTypeAny>([
+    ['bash', BashAction],
+    ['computer', ComputerAction],
+    ['str_replace_editor', EditAction],
+  ]),
+  '20250124': new Map<string, ZodTypeAny>([
+    ['bash', BashAction],
+    ['computer', ComputerAction20250124],
+    ['str_replace_editor', EditAction],
+  ]),
+};
+
+/**
+ * Handles execution of a single tool use request from the model
+ *
+ * @param block - The tool call requested by the model
+ * @param computer - The computer instance
+ * @param options - Optional abort signal forwarded to the tool call, limit above which tool
+ * output is truncated, schemas to validate tool input against (defaulting to the 20241022
+ * built-in actions and no MCP validation) and scaler for computer actions
+ * @returns {Promise<ToolCallRecord>} - The tool call together with its result and duration
+ */
+async function handleToolRequest(
+  block: ToolCall,
+  computer: Computer,
+  options: {
+    signal?: AbortSignal;
+    maxOutputChars?: number;
+    toolSchemas?: ToolSchemas;
+    scaler?: CoordinateScaler | null;
+  } = {}
+): Promise<ToolCallRecord> {
+  const { signal, maxOutputChars, toolSchemas, scaler } = options;
+  const startedAt = Date.now();
+
+  // A failed tool result the model can react to
+  const errorResult = (error: string) =>
+    makeToolResult(
+      ToolResult.parse({
+        error,
+        output: null,
+        base64_image: null,
+        system: null,
+      }),
+      block.id
+    );
+
+  // Reports invalid input back to the model, listing every problem so it can correct it
+  const invalidInput = (issues: ValidationIssue[]) => {
+    const result = errorResult(
+      `Invalid input for tool ${block.name}:\n${formatIssues(issues)}`
+    );
+    logger.debug({ tool_use_error: result }, 'Could not parse tool use');
+    return async () => ({ result, toolResult: null });
+  };
+
+  // Select an executor function based on the shape of the 'block'
+  const execute = ((): (() => Promise<{
+    result: BetaToolResultBlockParam;
+    toolResult: ToolResult | null;
+  }>) => {
+    // Built-in tools are checked against the schema of their version
+    const actionSchema = (
+      toolSchemas?.actions ?? actionSchemas['20241022']
+    ).get(block.name);
+    if (actionSchema) {
+      const parseAction = actionSchema.safeParse({
+        tool: block.name,
+        params: block.input,
+      });
+      if (!parseAction.success) {
+        return invalidInput(zodIssues(parseAction.error, 1));
+      }
+
+      const action: Action = parseAction.data;
+      logger.debug(action, 'Parsed action:');
+      return async () => {
+        // Coordinates are mapped to the real display, and screenshots back to the model's size.
+        // Tool errors are shown to the model, whatever the computer's throwOnToolError says.
+        const toolResult = (
+          await computer.execute(scaler?.scaleAction(action) ?? action, {
+            signal,
+            throwOnToolError: false,
+          })
+        ).tool_result;
+        const shownResult =
+          scaler && action.tool === 'computer'
+            ? scaler.scaleToolResult(toolResult)
+            : toolResult;
+        return {
+          result: makeToolResult(shownResult, block.id, maxOutputChars),
+          toolResult,
+        };
+      };
+    }
+
+    // Any other tool must be one of the MCP tools; a made-up name is reported to the model
+    if (toolSchemas && !toolSchemas.inputs.has(block.name)) {
+      const available = [
+        ...toolSchemas.actions.keys(),
+        ...toolSchemas.inputs.keys(),
+      ];
+      const result = errorResult(
+        `Unknown tool ${block.name}. Available tools: ${available.join(', ')}`
+      );
+      logger.debug({ tool_use_error: result }, 'Unknown tool:');
+      return async () => ({ result, toolResult: null });
+    }
+
+    const parseUnknownAction = UnknownAction.safeParse({
+      tool: block.name,
+      params: block.input,
+    });
+
+    if (parseUnknownAction.success) {
+      const inputSchema = toolSchemas?.inputs.get(block.name);
+      const issues = inputSchema
+        ? validateJsonSchema(inputSchema, parseUnknownAction.data.params)
+        : [];
+      if (issues.length > 0) {
+        return invalidInput(issues);
+      }
+
+      logger.debug(parseUnknownAction.data, 'Parsed unknown action:');
+      return async () => {
+        const toolResult = await computer.callMcpTool(
+          parseUnknownAction.data.tool,
+          parseUnknownAction.data.params,
+          undefined,
+          { signal }
+        );
+        const result: ToolResultBlockParam = {
+          tool_use_id: block.id,
+          type: 'tool_result',
+          content:
+            maxOutputChars === undefined
+              ? JSON.stringify(toolResult.content)
+              : truncateText(
+                  JSON.stringify(toolResult.content),
+                  maxOutputChars
+                ),
+          is_error: toolResult.isError
+            ? Boolean(toolResult.isError)
+            : undefined,
+        };
+        return { result, toolResult: null };
+      };
+    }
+
+    return invalidInput(
+      parseUnknownAction.success ? [] : zodIssues(parseUnknownAction.error, 1)
+    );
+  })();
+
+  // Execute the tool request and record its result. A tool call that does not finish in time
+  // is reported to the model rather than ending the run.
+  const { result, toolResult } = await execute().catch((error) => {
+    if (!(error instanceof ComputerTimeoutError)) throw error;
+    return { result: errorResult(error.message), toolResult: null };
+  });
+  logger.info(result, 'Tool Result:');
+
+  return {
+    ...block,
+    result,
+    toolResult,
+    isError: Boolean(result.is_error),
+    vetoed: false,
+    durationMs: Date.now() - startedAt,
+  };
+}
@@ -3,17 +3,49 @@ import {
   ComputerMessage,
   HDRConfig,
   MachineMetadata,
+  OutputMessage,
   StartServerResponseSchema,
+  type OutputChunk,
   type StartServerRequest,
   type StartServerResponse,
+  type ToolResult,
 } from './types';
 
-import { bashTool, computerTool } from './tools';
+import {
+  computerTool,
+  toolVersions,
+  type ToolDefinition,
+  type ToolVersion,
+} from './tools';
 import { ComputerLogger } from './utils/computerLogger';
 import { createModuleLogger } from './utils/logger';
 import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
 import { Action } from './schemas/action';
-import { useComputer } from './anthropic';
+import type { ComputerParams } from './schemas/computerActions';
+import {
+  useComputer,
+  useComputerStream,
+  type AgentEvent,
+  type RunResult,
+  type UseComputerOptions,
+} from './agent';
+import type { ModelProvider, ProviderName } from './providers';
+import { AgentSession, type AgentSessionOptions } from './session';
+import type { ActionPolicy } from './policy';
+import { RemoteFileSystem } from './fs';
+import {
+  Shell,
+  type BashOptions,
+  type BashResult,
+  type ShellOptions,
+} from './shell';
+import type { ScalingOption } from './scaling';
+import { SessionRecorder, type RecorderOptions } from './recorder';
+import {
+  mergeSystemPromptOptions,
+  type SystemPromptOptions,
+} from './systemPrompt';
 import {
   Client,
   type ClientOptions,
@@ -28,10 +60,7 @@ import type {
 } from '@modelcontextprotocol/sdk/types.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import type { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
-import type {
-  BetaToolUnion,
-  BetaTool,
-} from '@anthropic-ai/sdk/resources/beta/index.mjs';
+import type { BetaTool } from '@anthropic-ai/sdk/resources/beta/index.mjs';
 
 // Polyfill is a workaround required by MCP SDK  - asebexen
 // Solution taken from https://github.com/pocketbase/pocketbase/discussions/3285
@@ -39,7 +68,21 @@ import { EventSource } from 'eventsource';
 global.EventSource = EventSource;
 
 const EVENT_METADATA_READY = 'machine-metadata-ready';
+const EVENT_UNMATCHED_MESSAGE = 'unmatched-message';
+const EVENT_COMMAND_COMPLETED = 'command-completed';
 import { getMcpUrl as getMcpUrl, getStreamUrl, getWSSUrl } from './utils/urls';
+import { getBackoffDelay, sleep, type BackoffOptions } from './utils/backoff';
+import { iterate } from './utils/asyncQueue';
+import {
+  AbortError,
+  ComputerTimeoutError,
+  ConnectionLostError,
+  McpServerError,
+  MetadataTimeoutError,
+  NotConnectedError,
+  ProtocolError,
+  ToolExecutionError,
+} from './errors';
 
 const logger = createModuleLogger('Computer');
 
@@ -50,7 +93,7 @@ export interface IComputer {
   /** Establishes a WebSocket connection to the computer control server */
   connect(): Promise<void>;
   /** Executes a specified command action on the connected computer */
-  execute(command: Action): Promise<ComputerMessage>;
+  execute(command: Action, options?: ExecuteOptions): Promise<ComputerMessage>;
   /** Checks if the WebSocket connection is currently active */
   isConnected(): boolean;
 }
@@ -65,6 +108,91 @@ export interface ConnectOptions {
   mcpUrl?: string;
 }
 
+/**
+ * Options that may be passed to Computer.execute()
+ */
+export interface ExecuteOptions {
+  /** Reject with a ComputerTimeoutError if no response arrives within this many milliseconds; defaults to ComputerOptions.defaultTimeoutMs */
+  timeoutMs?: number;
+  /** Signal that cancels the command, rejecting with an AbortError */
+  signal?: AbortSignal;
+  /** Ask the server to stop the command when it times out or is aborted */
+  sendCancel?: boolean;
+  /** Overrides ComputerOptions.throwOnToolError for this command */
+  throwOnToolError?: boolean;
+  /** Asks the server to stream the command's output, calling this for every piece */
+  onOutput?: (chunk: OutputChunk) => void;
+}
+
+/**
+ * A position on the screen in pixels
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type MouseButton = 'left' | 'right' | 'middle';
+
+/**
+ * Options for Computer.click()
+ */
+export interface ClickOptions {
+  /** Button to click, defaults to 'left' */
+  button?: MouseButton;
+  /** Double click instead; only supported for the left button */
+  double?: boolean;
+}
+
+/**
+ * Policy for automatically reconnecting when the WebSocket connection drops
+ */
+export interface ReconnectOptions extends BackoffOptions {
+  /** Maximum number of reconnect attempts before giving up */
+  maxAttempts: number;
+  /** Resend in-flight commands after reconnecting instead of rejecting them with a ConnectionLostError */
+  replayInFlight: boolean;
+}
+
+/**
+ * Payload of the 'reconnecting' event, emitted before each reconnect attempt
+ */
+export interface ReconnectingEvent {
+  attempt: number;
+  delayMs: number;
+}
+
+/**
+ * Payload of the 'reconnected' event, emitted once a reconnect attempt succeeds
+ */
+export interface ReconnectedEvent {
+  attempt: number;
+  /** Session ID that was requested for resumption */
+  sessionId: string | null;
+}
+
+/**
+ * Payload of the 'command-completed' event, emitted when a command receives its response,
+ * including responses that report a tool error
+ */
+export interface CommandCompletedEvent {
+  command: Action;
+  message: ComputerMessage;
+  durationMs: number;
+}
+
+/**
+ * Default reconnect policy, used for any ReconnectOptions not supplied
+ */
+const defaultReconnectOptions: ReconnectOptions = {
+  maxAttempts: 5,
+  initialDelayMs: 500,
+  maxDelayMs: 10000,
+  backoffFactor: 2,
+  jitter: 0.2,
+  replayInFlight: false,
+};
+
 /**
  * Configuration options for the Computer instance
  */
@@ -73,8 +201,10 @@ export interface ComputerOptions {
   baseUrl?: string;
   /** HDR API key for authentication */
   apiKey?: string;
-  /** Set of available tools for computer control */
-  tools?: Set<BetaToolUnion>;
+  /** Set of available tools for computer control, defaults to the bash and computer tools of toolVersion */
+  tools?: Set<ToolDefinition>;
+  /** Version of the computer use tools, defaults to '20241022' */
+  toolVersion?: ToolVersion;
   logOutput?: boolean;
   /** Callback function for handling incoming messages */
   onMessage: (message: ComputerMessage) => void | Promise<void>;
@@ -88,22 +218,52 @@ export interface ComputerOptions {
   onClose?: (code: number, reason: string) => void;
   /** Pre-processing function for outgoing data */
   beforeSend?: (data: unknown) => unknown;
+  /** Reconnect automatically when the connection drops; disabled when omitted or false */
+  reconnect?: Partial<ReconnectOptions> | false;
+  /** Make execute() throw a ToolExecutionError when tool_result.error is set */
+  throwOnToolError?: boolean;
+  /** Timeout of commands that do not pass their own timeoutMs, defaults to 5 minutes; Infinity disables it */
+  defaultTimeoutMs?: number;
+  /** System prompt options used by do() and doStream() for this machine */
+  systemPrompt?: SystemPromptOptions;
+  /** Action policy used by do() and doStream() unless a run passes its own */
+  policy?: ActionPolicy;
+  /** Screen size shown to the model by do() and doStream() unless a run passes its own */
+  scaling?: ScalingOption;
 }
 
+/**
+ * A command that has been sent to the server and is awaiting its response
+ */
+interface PendingRequest {
+  command: Action;
+  resolve: (message: ComputerMessage) => void;
+  reject: (error: Error) => void;
+  onOutput?: (chunk: OutputChunk) => void;
+}
+
+/**
+ * Computer action that clicks each mouse button
+ */
+const clickActions = {
+  left: 'left_click',
+  right: 'right_click',
+  middle: 'middle_click',
+} as const;
+
 /**
  * Default configuration options for the Computer instance
  */
 const defaultOptions: ComputerOptions = {
   baseUrl: process.env.HDR_BASE_URL || 'https://api.hdr.is/compute/',
-  tools: new Set([bashTool, computerTool]),
+  toolVersion: '20241022',
+  defaultTimeoutMs: 5 * 60_000,
   logOutput: true,
   onOpen: () => {},
   onMessage: () => {},
   onError: () => {},
   onClose: () => {},
-  parseMessage: (message: MessageEvent) => {
-    return ComputerMessage.parse(JSON.parse(message.toString()));
-  },
+  parseMessage: () => {},
 };
 
 /**
@@ -130,6 +290,25 @@ export class Computer extends EventEmitter implements IComputer {
   sessionId: string | null = null;
   /** Use Computer.getMetadata() to get - metadata is set on connect() invocation via welcome message */
   private machineMetadata: MachineMetadata | null = null;
+  /** Commands awaiting a response, keyed by client-generated request ID */
+  private pendingRequests = new Map<string, PendingRequest>();
+  /**
+   * IDs of the requests whose response has not arrived yet, in the order they were sent.
+   * Besides the pending requests, this holds requests that timed out or were aborted
+   * without a cancel frame, whose late responses must not answer a later command.
+   */
+  private unansweredRequests = new Set<string>();
+  /** Set once a response echoes its request ID, after which responses are never matched by order */
+  private serverEchoesRequestIds = false;
+  /** Options from the last connect() call, re-used when reconnecting */
+  private connectOptions: ConnectOptions | undefined;
+  /** Set by close() so that an intentional disconnect does not trigger a reconnect */
+  private closedByUser = false;
+  private reconnectPromise: Promise<void> | null = null;
+  /** Files of the computer, read and written through the editor and bash tools */
+  readonly fs: RemoteFileSystem;
+  /** Version of the computer use tools registered by this computer */
+  readonly toolVersion: ToolVersion;
 
   /**
    * Creates a new Computer instance
@@ -138,12 +317,18 @@ export class Computer extends EventEmitter implements IComputer {
   constructor(options: Partial<ComputerOptions> = {}) {
     super();
     this.options = { ...defaultOptions, ...options };
+    this.toolVersion = this.options.toolVersion ?? '20241022';
+    const toolSet = toolVersions[this.toolVersion];
+    this.options.tools = new Set(
+      this.options.tools ?? [toolSet.bash, toolSet.computer]
+    );
     this.config = HDRConfig.parse({
       base_url: this.options.baseUrl,
       api_key: this.options.apiKey,
     });
     this.logger = new ComputerLogger();
     this.createdAt = new Date().toISOString();
+    this.fs = new RemoteFileSystem(this);
 
     this.setupEventHandlers();
   }
@@ -170,12 +355,13 @@ export class Computer extends EventEmitter implements IComputer {
   /**
    * Parses incoming WebSocket messages
    * @param {MessageEvent} message - Raw WebSocket message
+   * @param {unknown} frame - The message, decoded from JSON
    * @returns {ComputerMessage} Parsed message object
    * @private
    */
-  private parseMessage(message: MessageEvent): ComputerMessage {
+  private parseMessage(message: MessageEvent, frame: unknown): ComputerMessage {
     this.options.parseMessage(message);
-    return ComputerMessage.parse(JSON.parse(message.toString()));
+    return ComputerMessage.parse(frame);
   }
 
   /**
@@ -184,15 +370,103 @@ export class Computer extends EventEmitter implements IComputer {
    * @private
    */
   private onMessage(message: MessageEvent) {
-    const parsedMessage = this.parseMessage(message);
+    // Each message is decoded once; output frames skip the message schema
+    let frame: unknown;
+    let parsedMessage: ComputerMessage | null;
+    try {
+      frame = JSON.parse(message.toString());
+      parsedMessage =
+        (frame as { type?: unknown } | null)?.type === 'output'
+          ? null
+          : this.parseMessage(message, frame);
+    } catch (error) {
+      this.emit(
+        'error',
+        new ProtocolError(
+          `Received malformed message: ${(error as Error).message}`
+        )
+      );
+      return;
+    }
+    if (parsedMessage === null) {
+      this.handleOutputMessage(frame);
+      return;
+    }
     this.setUpdatedAt(parsedMessage.metadata.response_timestamp.getTime());
     if (this.options.logOutput) {
       this.logger.logReceive(parsedMessage);
     }
-    this.handleConnectionMessage(parsedMessage);
+    if (!this.handleConnectionMessage(parsedMessage)) {
+      this.resolvePendingRequest(parsedMessage);
+    }
     this.options.onMessage(parsedMessage);
   }
 
+  /**
+   * Passes an output frame to the command it belongs to. Frames for commands that are no
+   * longer pending are dropped.
+   * @param {unknown} frame - Message with type 'output', decoded from JSON
+   * @private
+   */
+  private handleOutputMessage(frame: unknown) {
+    const parsed = OutputMessage.safeParse(frame);
+    if (!parsed.success) {
+      this.emit(
+        'error',
+        new ProtocolError(
+          `Received malformed output frame: ${parsed.error.message}`
+        )
+      );
+      return;
+    }
+    const { request_id, stream, data } = parsed.data;
+    this.pendingRequests.get(request_id)?.onOutput?.({ stream, data });
+  }
+
+  /**
+   * Resolves the pending request a message answers, matched on the echoed request ID or the message ID.
+   * Servers that do not echo request IDs answer in order, so until a response has echoed one, a
+   * message without one answers the oldest request still awaiting a response. When that request
+   * timed out or was aborted, the message is its late response. Messages that do not answer any
+   * pending request are emitted as 'unmatched-message'.
+   * @param {ComputerMessage} message - Parsed computer message
+   * @private
+   */
+  private resolvePendingRequest(message: ComputerMessage) {
+    const { request_id, message_id } = message.metadata;
+    if (request_id !== undefined) this.serverEchoesRequestIds = true;
+    const requestId =
+      [request_id, message_id].find(
+        (id) => id !== undefined && this.unansweredRequests.has(id)
+      ) ??
+      (this.serverEchoesRequestIds
+        ? undefined
+        : this.unansweredRequests.values().next().value);
+    if (requestId !== undefined) this.unansweredRequests.delete(requestId);
+
+    const pending =
+      requestId !== undefined ? this.pendingRequests.get(requestId) : undefined;
+    if (!pending) {
+      this.emit(EVENT_UNMATCHED_MESSAGE, message);
+      return;
+    }
+
+    this.pendingRequests.delete(requestId!);
+    pending.resolve(message);
+  }
+
+  /**
+   * Rejects every pending request, e.g. because the connection was lost
+   * @param {Error} error - Error to reject the pending requests with
+   * @private
+   */
+  private rejectPendingRequests(error: Error) {
+    const pending = Array.from(this.pendingRequests.values());
+    this.pendingRequests.clear();
+    this.unansweredRequests.clear();
+    pending.forEach((request) => request.reject(error));
+  }
+
   /**
    * Handles WebSocket error events
    * @param {Error} error - Error object
@@ -214,12 +488,110 @@ export class Computer extends EventEmitter implements IComputer {
     this.options.onClose?.(code, reason);
   }
 
+  /**
+   * Returns the reconnect policy with defaults applied, or null if reconnecting is disabled
+   * @private
+   */
+  private getReconnectOptions(): ReconnectOptions | null {
+    if (!this.options.reconnect) return null;
+    return { ...defaultReconnectOptions, ...this.options.reconnect };
+  }
+
+  /**
+   * Handles an established connection dropping unexpectedly, either by rejecting
+   * in-flight requests or by starting the reconnect loop
+   * @param {number} code - Close status code
+   * @param {string} reason - Close reason
+   * @private
+   */
+  private handleConnectionLost(code: number, reason: string) {
+    const error = new ConnectionLostError(`Connection lost: ${code} ${reason}`);
+    const reconnectOptions = this.getReconnectOptions();
+
+    if (!reconnectOptions) {
+      this.rejectPendingRequests(error);
+      return;
+    }
+    if (!reconnectOptions.replayInFlight) {
+      this.rejectPendingRequests(error);
+    }
+
+    this.reconnectPromise = this.reconnect(reconnectOptions)
+      .catch((reconnectError: Error) => {
+        logger.error(reconnectError.message);
+        this.rejectPendingRequests(reconnectError);
+      })
+      .finally(() => {
+        this.reconnectPromise = null;
+      });
+  }
+
+  /**
+   * Re-opens the WebSocket connection with exponential backoff, asking the server to resume
+   * the previous session. Replays pending requests once reconnected.
+   * @param {ReconnectOptions} reconnectOptions - Reconnect policy
+   * @throws {ConnectionLostError} If every attempt fails
+   * @private
+   */
+  private async reconnect(reconnectOptions: ReconnectOptions): Promise<void> {
+    for (let attempt = 1; attempt <= reconnectOptions.maxAttempts; attempt++) {
+      const delayMs = getBackoffDelay(attempt, reconnectOptions);
+      const reconnecting: ReconnectingEvent = { attempt, delayMs };
+      this.emit('reconnecting', reconnecting);
+      await sleep(delayMs);
+
+      if (this.closedByUser) {
+        throw new ConnectionLostError('Connection closed by client');
+      }
+
+      try {
+        await this.connectWS(this.connectOptions?.wsUrl, this.sessionId);
+      } catch (error) {
+        logger.warn(
+          `Reconnect attempt ${attempt} failed: ${(error as Error).message}`
+        );
+        continue;
+      }
+
+      const reconnected: ReconnectedEvent = {
+        attempt,
+        sessionId: this.sessionId,
+      };
+      this.emit('reconnected', reconnected);
+      this.replayPendingRequests();
+      return;
+    }
+
+    throw new ConnectionLostError(
+      `Failed to reconnect after ${reconnectOptions.maxAttempts} attempts`
+    );
+  }
+
+  /**
+   * Resends every pending request under its original request ID
+   * @private
+   */
+  private replayPendingRequests() {
+    // Responses to requests sent on the lost connection will not arrive
+    this.unansweredRequests = new Set(this.pendingRequests.keys());
+    this.pendingRequests.forEach((pending, requestId) => {
+      this.sendWS(pending.command, requestId, !!pending.onOutput).catch(
+        (error) => {
+          this.pendingRequests.delete(requestId);
+          this.unansweredRequests.delete(requestId);
+          pending.reject(error);
+        }
+      );
+    });
+  }
+
   /**
    * Processes connection-related messages and updates machine metadata
    * @param {ComputerMessage} message - Parsed computer message
-   * @private
+   * @returns {boolean} Whether the message was a welcome message carrying machine metadata
+   * @protected
    */
-  private handleConnectionMessage(message: ComputerMessage) {
+  protected handleConnectionMessage(message: ComputerMessage): boolean {
     const tryParse = MachineMetadata.safeParse(
       JSON.parse(message.tool_result.system ?? '{}')
     );
@@ -229,17 +601,25 @@ export class Computer extends EventEmitter implements IComputer {
       this.machineMetadata = machineMetadata;
       this.sessionId = message.metadata.session_id;
 
+      // Keep the version of the registered computer tool, updating its display size
+      let registeredComputerTool: ToolDefinition =
+        toolVersions[this.toolVersion].computer;
+      this.options.tools?.forEach((tool) => {
+        if (tool.name === computerTool.name) {
+          registeredComputerTool = tool;
+          this.options.tools?.delete(tool);
+        }
+      });
       const updatedComputerTool = {
-        ...computerTool,
+        ...registeredComputerTool,
         display_height_px: machineMetadata.display_height ?? 0,
         display_width_px: machineMetadata.display_width ?? 0,
-      };
-
-      this.options.tools?.delete(computerTool);
+      } as ToolDefinition;
       this.options.tools?.add(updatedComputerTool);
 
       this.emit(EVENT_METADATA_READY);
     }
+    return tryParse.success;
   }
 
   /**
@@ -247,39 +627,56 @@ export class Computer extends EventEmitter implements IComputer {
    * @returns {Promise<void[]>}
    */
   public async connect(options?: ConnectOptions): Promise<void> {
+    this.connectOptions = options;
+    this.closedByUser = false;
     await this.connectWS(options?.wsUrl);
     await this.connectMcpClient(options?.mcpUrl);
   }
 
   /**
    * Establish WebSocket connection
+   * @param {string} url - Optional WS URL override
+   * @param {string | null} sessionId - Session to resume, sent as the X-Session-Id header
    * @private
    */
-  private async connectWS(url?: string): Promise<void> {
+  private async connectWS(
+    url?: string,
+    sessionId?: string | null
+  ): Promise<void> {
     return new Promise<void>((resolve, reject) => {
       const wsUrl = url || getWSSUrl(this.config.base_url);
       logger.info(`Connecting to ${wsUrl}`);
-      this.ws = new WebSocket(wsUrl, {
-        headers: { Authorization: `Bearer ${this.config.api_key}` },
-      });
+      const headers: Record<string, string> = {
+        Authorization: `Bearer ${this.config.api_key}`,
+      };
+      if (sessionId) {
+        headers['X-Session-Id'] = sessionId;
+      }
+      const ws = new WebSocket(wsUrl, { headers });
+      this.ws = ws;
+      let opened = false;
 
-      this.ws.on('open', () => {
+      ws.on('open', () => {
+        opened = true;
         this.emit('connected');
         resolve();
       });
 
-      this.ws.on('message', (message) => {
+      ws.on('message', (message) => {
         this.emit('message', message);
       });
 
-      this.ws.on('error', (error) => {
+      ws.on('error', (error) => {
         this.emit('error', error);
         reject(error);
       });
 
-      this.ws.on('close', (code, reason) => {
+      ws.on('close', (code, reason) => {
         this.emit('close', code, reason);
-        reject(new Error(`Connection closed: ${code} ${reason}`));
+        reject(new ConnectionLostError(`Connection closed: ${code} ${reason}`));
+        if (opened && !this.closedByUser && ws === this.ws) {
+          this.handleConnectionLost(code, reason.toString());
+        }
       });
     });
   }
@@ -307,7 +704,7 @@ export class Computer extends EventEmitter implements IComputer {
    */
   private getHostname(): string {
     if (!this.machineMetadata)
-      throw new Error(
+      throw new NotConnectedError(
         'Unable to resolve hostname; Computer.machineMetadata is null'
       );
     else if (this.machineMetadata.machine_id === null) {
@@ -319,64 +716,269 @@ export class Computer extends EventEmitter implements IComputer {
       return `https://api.hdr.is/compute/${this.machineMetadata.machine_id}`;
   }
 
+  /**
+   * Returns the base URL of the MCP endpoint, preferring the URL passed to connect()
+   * @private
+   */
+  private getMcpBaseUrl(): string {
+    return (
+      this.connectOptions?.mcpUrl?.replace(/\/$/, '') ??
+      `${this.getHostname()}/mcp`
+    );
+  }
+
+  /**
+   * Returns the MCP client, or throws if connect() has not been called
+   * @throws {NotConnectedError} If the MCP client is not connected
+   * @private
+   */
+  private requireMcpClient(): Client {
+    if (!this.mcpClient)
+      throw new NotConnectedError(
+        'MCP Client not connected; have you called Computer.connect()?'
+      );
+    return this.mcpClient;
+  }
+
   /**
    * Sends data through WebSocket connection
    * @param {Action} data - Action to be sent
+   * @param {string} requestId - Client-generated ID used to correlate the response
    * @returns {Promise<void>}
    * @private
    */
-  private async sendWS(data: Action): Promise<void> {
+  private async sendWS(
+    data: Action,
+    requestId: string,
+    streamOutput: boolean = false
+  ): Promise<void> {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      throw new Error('WebSocket is not connected');
+      throw new NotConnectedError('WebSocket is not connected');
     }
 
     if (this.options.logOutput) {
-      this.logger.logSend(data);
+      this.logger.logSend(data, requestId);
     }
 
-    const processed = this.options.beforeSend?.(data) ?? data;
+    const request = {
+      ...data,
+      request_id: requestId,
+      ...(streamOutput && { stream_output: true }),
+    };
+    const processed = this.options.beforeSend?.(request) ?? request;
     const message =
       typeof processed === 'string' ? processed : JSON.stringify(processed);
     this.ws?.send(message);
   }
 
   /**
-   * Executes a command and waits for response
+   * Asks the server to stop a command that is no longer awaited
+   * @param {string} requestId - Request ID of the command to cancel
+   * @private
+   */
+  private sendCancel(requestId: string) {
+    if (!this.isConnected()) return;
+    logger.info({ requestId }, 'Cancelling command');
+    this.ws?.send(JSON.stringify({ type: 'cancel', request_id: requestId }));
+  }
+
+  /**
+   * Executes a command and waits for its response. Each command is tagged with a
+   * request ID, so several commands may be in flight at once.
    * @param {Action} command - Command to execute
+   * @param {ExecuteOptions} options - Optional timeout and cancellation settings
    * @returns {Promise<ComputerMessage>} Response message
+   * @throws {ComputerTimeoutError} If no response arrives within options.timeoutMs
+   * @throws {AbortError} If options.signal is aborted before a response arrives
+   * @throws {ToolExecutionError} If throwOnToolError is enabled and the tool reports an error
    */
-  public async execute(command: Action): Promise<ComputerMessage> {
+  public async execute(
+    command: Action,
+    options: ExecuteOptions = {}
+  ): Promise<ComputerMessage> {
+    const {
+      timeoutMs = this.options.defaultTimeoutMs,
+      signal,
+      sendCancel = false,
+      throwOnToolError = this.options.throwOnToolError ?? false,
+      onOutput,
+    } = options;
+    if (signal?.aborted) {
+      throw new AbortError();
+    }
+
     await this.ensureConnected();
-    logger.info({ command }, 'Sending command:');
+    if (signal?.aborted) {
+      throw new AbortError();
+    }
+    const requestId = randomUUID();
+    logger.info({ command, requestId }, 'Sending command:');
+    const start = Date.now();
+
+    const message = await new Promise<ComputerMessage>((resolve, reject) => {
+      let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
 
-    return new Promise((resolve) => {
-      const handleMessage = (message: MessageEvent) => {
-        const response = this.parseMessage(message);
-        this.removeListener('message', handleMessage);
-        resolve(response);
+      const cleanup = () => {
+        clearTimeout(timeoutHandle);
+        signal?.removeEventListener('abort', onAbort);
+        this.pendingRequests.delete(requestId);
       };
 
-      this.addListener('message', handleMessage);
-      this.sendWS(command);
+      // Without a cancel frame the server still answers, so the request stays unanswered
+      const cancel = (error: Error) => {
+        cleanup();
+        if (sendCancel) {
+          this.sendCancel(requestId);
+          this.unansweredRequests.delete(requestId);
+        }
+        reject(error);
+      };
+
+      const onAbort = () => cancel(new AbortError());
+
+      if (timeoutMs !== undefined && Number.isFinite(timeoutMs)) {
+        timeoutHandle = setTimeout(
+          () =>
+            cancel(
+              new ComputerTimeoutError(
+                `No response to '${command.tool}' command within ${timeoutMs}ms`
+              )
+            ),
+          timeoutMs
+        );
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.unansweredRequests.add(requestId);
+      this.pendingRequests.set(requestId, {
+        command,
+        resolve: (message) => {
+          cleanup();
+          resolve(message);
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+        onOutput,
+      });
+      this.sendWS(command, requestId, !!onOutput).catch((error) => {
+        cleanup();
+        this.unansweredRequests.delete(requestId);
+        reject(error);
+      });
     });
+
+    const completed: CommandCompletedEvent = {
+      command,
+      message,
+      durationMs: Date.now() - start,
+    };
+    this.emit(EVENT_COMMAND_COMPLETED, completed);
+    if (throwOnToolError && message.tool_result.error) {
+      throw new ToolExecutionError(message.tool_result, command);
+    }
+    return message;
+  }
+
+  /**
+   * Executes a command like execute(), yielding its output as the server streams it
+   *
+   * @example
+   * const action: Action = { tool: 'bash', params: { command: 'make' } };
+   * for await (const chunk of computer.executeStream(action)) {
+   *   process.stdout.write(chunk.data);
+   * }
+   *
+   * @param {Action} command - Command to execute
+   * @param {ExecuteOptions} options - Optional timeout and cancellation settings
+   * @returns {AsyncGenerator<OutputChunk, ComputerMessage>} Pieces of output, returning the
+   *   response message once the command finishes. Leaving the loop early aborts the command.
+   */
+  public executeStream(
+    command: Action,
+    options: ExecuteOptions = {}
+  ): AsyncGenerator<OutputChunk, ComputerMessage, undefined> {
+    return iterate(
+      (push, signal) =>
+        this.execute(command, {
+          ...options,
+          signal,
+          onOutput: (chunk) => {
+            push(chunk);
+            options.onOutput?.(chunk);
+          },
+        }),
+      options.signal
+    );
   }
 
   /**
    * Executes a high-level objective using specified provider
    * @param {string} objective - Description of the task to perform
-   * @param {'anthropic' | 'custom'} provider - Provider to use for execution
-   * @returns {Promise<void>}
+   * @param {ProviderName | ModelProvider} provider - Built-in provider name or a custom ModelProvider
+   * @param {UseComputerOptions} options - Sampling options and an optional AbortSignal that stops the objective
+   * @returns {Promise<RunResult>} The final text, transcript, tool calls and usage of the run
    */
   public async do(
     objective: string,
-    provider: 'anthropic' | 'custom' = 'anthropic'
-  ): Promise<void> {
-    if (provider === 'custom') {
-      throw new Error(
-        'Custom providers are not supported for this method. Use the execute method instead.'
-      );
-    }
-    await useComputer(objective, this);
+    provider: ProviderName | ModelProvider = 'anthropic',
+    options?: UseComputerOptions
+  ): Promise<RunResult> {
+    return useComputer(
+      objective,
+      this,
+      this.withRunDefaults(provider, options)
+    );
+  }
+
+  /**
+   * Executes a high-level objective like do(), yielding its progress as it happens
+   * @param {string} objective - Description of the task to perform
+   * @param {ProviderName | ModelProvider} provider - Built-in provider name or a custom ModelProvider
+   * @param {UseComputerOptions} options - Sampling options, hooks and an optional AbortSignal
+   * @returns {AsyncGenerator<AgentEvent, RunResult>} Events of the run, returning its RunResult
+   */
+  public doStream(
+    objective: string,
+    provider: ProviderName | ModelProvider = 'anthropic',
+    options?: UseComputerOptions
+  ): AsyncGenerator<AgentEvent, RunResult, undefined> {
+    return useComputerStream(
+      objective,
+      this,
+      this.withRunDefaults(provider, options)
+    );
+  }
+
+  /**
+   * Starts a conversation with the agent that keeps its transcript across objectives
+   * @param {AgentSessionOptions} options - Default options for every run of the session
+   * @returns {AgentSession} A new session bound to this computer
+   */
+  public session(options?: AgentSessionOptions): AgentSession {
+    return new AgentSession(this, options);
+  }
+
+  /**
+   * Applies the provider and this machine's system prompt options, policy and scaling to run
+   * options
+   * @private
+   */
+  private withRunDefaults(
+    provider: ProviderName | ModelProvider,
+    options?: UseComputerOptions
+  ): UseComputerOptions {
+    return {
+      ...options,
+      provider,
+      system: mergeSystemPromptOptions(
+        this.options.systemPrompt,
+        options?.system
+      ),
+      policy: options?.policy ?? this.options.policy,
+      scaling: options?.scaling ?? this.options.scaling,
+    };
   }
 
   /**
@@ -393,8 +995,11 @@ export class Computer extends EventEmitter implements IComputer {
    * @private
    */
   private async ensureConnected() {
+    if (this.reconnectPromise) {
+      await this.reconnectPromise;
+    }
     if (!this.isConnected()) {
-      await this.connect();
+      await this.connect(this.connectOptions);
     }
   }
 
@@ -407,12 +1012,18 @@ export class Computer extends EventEmitter implements IComputer {
   }
 
   /**
-   * Closes the WebSocket connection
+   * Closes the WebSocket connection and the MCP client
    * @returns {Promise<void>}
    */
   public async close() {
+    this.closedByUser = true;
+    this.rejectPendingRequests(
+      new ConnectionLostError('Connection closed by client')
+    );
     this.ws?.close();
     this.ws = null;
+    await this.mcpClient?.close();
+    this.mcpClient = null;
   }
 
   /**
@@ -426,16 +1037,159 @@ export class Computer extends EventEmitter implements IComputer {
     });
 
     if (!message.tool_result.base64_image) {
-      throw new Error('No screenshot data received');
+      throw new ProtocolError('No screenshot data received');
     }
     return message.tool_result.base64_image;
   }
 
+  /**
+   * Moves the mouse cursor
+   * @param {number} x - Horizontal position in pixels
+   * @param {number} y - Vertical position in pixels
+   * @throws {ToolExecutionError} If the tool reports an error
+   */
+  public async moveMouse(x: number, y: number): Promise<void> {
+    await this.perform({ action: 'mouse_move', coordinate: [x, y] });
+  }
+
+  /**
+   * Moves the mouse cursor to a position and clicks
+   * @param {number} x - Horizontal position in pixels
+   * @param {number} y - Vertical position in pixels
+   * @param {ClickOptions} options - Button to click and whether to double click
+   * @throws {TypeError} If a double click is requested for a button other than 'left'
+   * @throws {ToolExecutionError} If the tool reports an error
+   */
+  public async click(
+    x: number,
+    y: number,
+    { button = 'left', double = false }: ClickOptions = {}
+  ): Promise<void> {
+    if (double && button !== 'left') {
+      throw new TypeError(
+        `Double click is not supported for the ${button} button`
+      );
+    }
+    await this.moveMouse(x, y);
+    await this.perform({
+      action: double ? 'double_click' : clickActions[button],
+    });
+  }
+
+  /**
+   * Drags with the left mouse button from one position to another
+   * @param {Point} from - Position where the drag starts
+   * @param {Point} to - Position where the drag ends
+   * @throws {ToolExecutionError} If the tool reports an error
+   */
+  public async drag(from: Point, to: Point): Promise<void> {
+    await this.moveMouse(from.x, from.y);
+    await this.perform({ action: 'left_click_drag', coordinate: [to.x, to.y] });
+  }
+
+  /**
+   * Types a string of text
+   * @param {string} text - Text to type
+   * @throws {ToolExecutionError} If the tool reports an error
+   */
+  public async type(text: string): Promise<void> {
+    await this.perform({ action: 'type', text });
+  }
+
+  /**
+   * Presses a key or key combination
+   * @param {string} keys - Keys in xdotool syntax, e.g. 'Return' or 'ctrl+s'
+   * @throws {ToolExecutionError} If the tool reports an error
+   */
+  public async press(keys: string): Promise<void> {
+    await this.perform({ action: 'key', text: keys });
+  }
+
+  /**
+   * Gets the current position of the mouse cursor
+   * @returns {Promise<Point>} The cursor position
+   * @throws {ProtocolError} If the position cannot be parsed from the tool output
+   * @throws {ToolExecutionError} If the tool reports an error
+   */
+  public async cursorPosition(): Promise<Point> {
+    const { output } = await this.perform({ action: 'cursor_position' });
+    const match = output?.match(/X=(\d+),\s*Y=(\d+)/);
+    if (!match) {
+      throw new ProtocolError(`Unexpected cursor position output: ${output}`);
+    }
+    return { x: Number(match[1]), y: Number(match[2]) };
+  }
+
+  /**
+   * Runs a shell command. The bash tool reports the command's stderr as the error of its
+   * result, so it is returned rather than thrown; check exitCode to tell whether it failed.
+   * @param {string} command - Command to run
+   * @param {BashOptions} options - Session, working directory, environment, and timeout and
+   *   cancellation settings
+   * @returns {Promise<BashResult>} The exit code, output and duration of the command
+   */
+  public async bash(
+    command: string,
+    { session, ...options }: BashOptions = {}
+  ): Promise<BashResult> {
+    return new Shell(this, session).run(command, options);
+  }
+
+  /**
+   * Runs a shell command like bash(), yielding its output as the server streams it
+   * @param {string} command - Command to run
+   * @param {BashOptions} options - Session, working directory, environment, and timeout and
+   *   cancellation settings
+   * @returns {AsyncGenerator<OutputChunk, BashResult>} Pieces of output, returning the exit
+   *   code, output and duration once the command finishes
+   */
+  public bashStream(
+    command: string,
+    { session, ...options }: BashOptions = {}
+  ): AsyncGenerator<OutputChunk, BashResult, undefined> {
+    return new Shell(this, session).stream(command, options);
+  }
+
+  /**
+   * Gets a named persistent shell. Its commands share their state, starting from the given
+   * working directory and environment; separate shells are independent.
+   * @param {string} name - Name of the session
+   * @param {ShellOptions} options - Working directory, environment and timeout for every command
+   * @returns {Shell} A handle for running commands in the session
+   */
+  public shell(name: string, options?: ShellOptions): Shell {
+    return new Shell(this, name, options);
+  }
+
+  /**
+   * Starts recording screenshots after every command, for export as an animation, a frame
+   * sequence or an HTML report once stopped
+   * @param {RecorderOptions} options - Whether to capture after commands and at an interval
+   * @returns {SessionRecorder} The started recorder
+   */
+  public record(options?: RecorderOptions): SessionRecorder {
+    const recorder = new SessionRecorder(this, options);
+    recorder.start();
+    return recorder;
+  }
+
+  /**
+   * Executes a computer action, throwing if the tool reports an error
+   * @private
+   */
+  private async perform(params: ComputerParams): Promise<ToolResult> {
+    const message = await this.execute(
+      { tool: 'computer', params },
+      { throwOnToolError: true }
+    );
+    return message.tool_result;
+  }
+
   /**
    * Registers new tools for computer control
-   * @param {BetaToolUnion[]} tools - Array of tools to register
+   * @param {ToolDefinition[]} tools - Array of tools to register
    */
-  public registerTool(tools: BetaToolUnion[]) {
+  public registerTool(tools: ToolDefinition[]) {
     tools.forEach((tool) => {
       this.options.tools?.add(tool);
     });
@@ -443,9 +1197,9 @@ export class Computer extends EventEmitter implements IComputer {
 
   /**
    * Lists all registered computer use tools
-   * @returns {BetaToolUnion[]} Array of registered computer use tools
+   * @returns {ToolDefinition[]} Array of registered computer use tools
    */
-  public listComputerUseTools(): BetaToolUnion[] {
+  public listComputerUseTools(): ToolDefinition[] {
     return Array.from(this.options.tools ?? new Set());
   }
 
@@ -456,12 +1210,9 @@ export class Computer extends EventEmitter implements IComputer {
     name: string,
     command: string
   ): Promise<StartServerResponse> {
-    if (!this.mcpClient)
-      throw new Error(
-        'MCP Client not connected; have you called Computer.connect()?'
-      );
+    this.requireMcpClient();
 
-    const url = `${this.getHostname()}/mcp/register_server`;
+    const url = `${this.getMcpBaseUrl()}/register_server`;
 
     const request: StartServerRequest = {
       name,
@@ -477,8 +1228,10 @@ export class Computer extends EventEmitter implements IComputer {
     });
 
     if (!response.ok) {
-      throw new Error(
-        `${response.status} ${response.statusText}: ${await response.text()}`
+      throw new McpServerError(
+        response.status,
+        response.statusText,
+        await response.text()
       );
     }
 
@@ -496,75 +1249,58 @@ export class Computer extends EventEmitter implements IComputer {
       | typeof CompatibilityCallToolResultSchema,
     options?: RequestOptions
   ) {
-    if (!this.mcpClient)
-      throw new Error(
-        'MCP Client not connected; have you called Computer.connect()?'
-      );
+    const mcpClient = this.requireMcpClient();
     const params: CallToolRequest['params'] = {
       name,
       arguments: args,
     };
 
-    return this.mcpClient.callTool(params, resultSchema, options);
+    return mcpClient.callTool(params, resultSchema, options);
   }
 
   /**
    * @returns a list of tools exposed by all currently-running MCP servers
    */
   public async listMcpTools(): Promise<BetaTool[]> {
-    if (!this.mcpClient)
-      throw new Error(
-        'MCP Client not connected; have you called Computer.connect()?'
+    return this.requireMcpClient()
+      .listTools()
+      .then((x) =>
+        x.tools.map((tool) => {
+          const { inputSchema, ...rest } = tool;
+          const betaTool: BetaTool = {
+            ...rest,
+            input_schema: inputSchema,
+          };
+          return betaTool;
+        })
       );
-    return this.mcpClient.listTools().then((x) =>
-      x.tools.map((tool) => {
-        const { inputSchema, ...rest } = tool;
-        const betaTool: BetaTool = {
-          ...rest,
-          input_schema: inputSchema,
-        };
-        return betaTool;
-      })
-    );
   }
 
   public async getMcpServerCapabilities(): Promise<
     ServerCapabilities | undefined
   > {
-    if (!this.mcpClient)
-      throw new Error(
-        'MCP Client not connected; have you called Computer.connect()?'
-      );
-    return this.mcpClient.getServerCapabilities();
+    return this.requireMcpClient().getServerCapabilities();
   }
 
   public async getMcpServerVersion(): Promise<Implementation | undefined> {
-    if (!this.mcpClient)
-      throw new Error(
-        'MCP Client not connected; have you called Computer.connect()?'
-      );
-    return this.mcpClient.getServerVersion();
+    return this.requireMcpClient().getServerVersion();
   }
 
   public async mcpPing() {
-    if (!this.mcpClient)
-      throw new Error(
-        'MCP Client not connected; have you called Computer.connect()?'
-      );
-    return this.mcpClient.ping();
+    return this.requireMcpClient().ping();
   }
 
   /**
    * @returns a list of all tools, both computer use and MCP.
    */
-  public async listAllTools(): Promise<BetaToolUnion[]> {
+  public async listAllTools(): Promise<ToolDefinition[]> {
     return [...this.listComputerUseTools(), ...(await this.listMcpTools())];
   }
 
   /**
    * Waits for machine metadata to be available
    * @param {number} timeoutMs - Maximum time to wait in milliseconds (default: 10000)
-   * @throws {Error} If metadata is not available within timeout period
+   * @throws {MetadataTimeoutError} If metadata is not available within timeout period
    * @public
    */
   public async getMetadata(
@@ -573,12 +1309,17 @@ export class Computer extends EventEmitter implements IComputer {
     return new Promise<MachineMetadata>((resolve, reject) => {
       if (this.machineMetadata) {
         resolve(this.machineMetadata);
+        return;
       }
 
-      const timeoutHandle = setTimeout(
-        () => reject('Timed out while waiting for welcome message'),
-        timeoutMs
-      );
+      const timeoutHandle = setTimeout(() => {
+        cleanup();
+        reject(
+          new MetadataTimeoutError(
+            `Timed out after ${timeoutMs}ms while waiting for welcome message`
+          )
+        );
+      }, timeoutMs);
 
       const cleanup = () => {
         clearTimeout(timeoutHandle);
@@ -587,10 +1328,14 @@ export class Computer extends EventEmitter implements IComputer {
 
       const onReady = () => {
         cleanup();
-        if (!this.machineMetadata)
-          throw new Error(
-            `Computer emitted '${EVENT_METADATA_READY}' but metadata is not ready.`
+        if (!this.machineMetadata) {
+          reject(
+            new ProtocolError(
+              `Computer emitted '${EVENT_METADATA_READY}' but metadata is not ready.`
+            )
           );
+          return;
+        }
         resolve(this.machineMetadata);
       };
 
@@ -600,16 +1345,17 @@ export class Computer extends EventEmitter implements IComputer {
   /**
    * Gets the URL for streaming video from the connected computer
    * @returns {Promise<string>} URL for accessing the video stream
-   * @throws {Error} If computer is not connected or metadata is unavailable
+   * @throws {NotConnectedError} If computer is not connected
+   * @throws {ProtocolError} If the machine metadata has no machine ID
    */
   public async videoStreamUrl() {
     if (!this.isConnected()) {
-      throw new Error('Computer is not connected.');
+      throw new NotConnectedError('Computer is not connected.');
     }
 
     const machineMetadata = await this.getMetadata();
     if (!machineMetadata.machine_id)
-      throw new Error(
+      throw new ProtocolError(
         'Failed to get video stream URL; machine does not have a machine ID'
       );
 
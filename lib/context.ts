@@ -0,0 +1,208 @@
+// context management for long-running agent loops
+import type {
+  BetaContentBlockParam,
+  BetaMessageParam,
+} from '@anthropic-ai/sdk/resources/beta/index.mjs';
+import type { ModelProvider, ModelUsage } from './providers';
+
+/**
+ * Text that replaces images removed from the conversation
+ */
+export const IMAGE_PLACEHOLDER = '[screenshot removed to save context]';
+
+/**
+ * How the conversation is kept within the model's context window
+ * @property maxImages - Keep only the N most recent images, replacing older ones with a placeholder
+ * @property maxToolOutputChars - Truncate the text of each tool result to about this many characters
+ * @property summarize - Summarize older turns with a model call once the prompt grows too large
+ */
+export interface ContextStrategy {
+  maxImages?: number;
+  maxToolOutputChars?: number;
+  summarize?: SummarizeOptions;
+}
+
+/**
+ * Options for summarizing older turns
+ * @property thresholdTokens - Summarize once a model request used more input tokens than this
+ * @property keepRecentMessages - Number of most recent messages kept verbatim, defaults to 6
+ * @property provider - Provider used for the summary, defaults to the run's provider
+ * @property maxTokens - Maximum length of the summary, defaults to 2048
+ */
+export interface SummarizeOptions {
+  thresholdTokens: number;
+  keepRecentMessages?: number;
+  provider?: ModelProvider;
+  maxTokens?: number;
+}
+
+const SUMMARY_PROMPT = `You are compacting the transcript of an agent operating a computer so that it can continue its task with a shorter context.
+Summarize the transcript below. Include the original task, what has been done so far, what was learned about the state of the machine (open applications, files, paths, credentials the user supplied), what failed, and what remains to be done.
+Reply with the summary only.`;
+
+/**
+ * Shortens text to at most maxChars characters, keeping its beginning and end
+ * @param {string} text - Text to shorten
+ * @param {number} maxChars - Maximum length of the result
+ * @returns The text, its head and tail joined by a truncation marker, or just its head when
+ * maxChars is too small to fit the marker
+ */
+export function truncateText(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const marker = (removed: number) =>
+    `\n[... ${removed} characters truncated ...]\n`;
+  // The marker for the whole text is at least as long as the final one
+  const keep = maxChars - marker(text.length).length;
+  if (keep <= 0) return text.slice(0, Math.max(0, maxChars));
+  const head = Math.ceil(keep / 2);
+  const tail = keep - head;
+  return (
+    text.slice(0, head) +
+    marker(text.length - head - tail) +
+    (tail > 0 ? text.slice(-tail) : '')
+  );
+}
+
+/**
+ * Replaces all but the most recent images in the conversation with a text placeholder,
+ * including images inside tool results. Messages are modified in place.
+ * @param {BetaMessageParam[]} messages - Conversation to prune
+ * @param {number} keep - Number of most recent images to keep
+ * @returns The number of images removed
+ */
+export function pruneImages(
+  messages: BetaMessageParam[],
+  keep: number
+): number {
+  let seen = 0;
+  let removed = 0;
+
+  const prune = <T extends { type: string }>(
+    blocks: T[]
+  ): (T | { type: 'text'; text: string })[] => {
+    const result: (T | { type: 'text'; text: string })[] = [];
+    for (let i = blocks.length - 1; i >= 0; i--) {
+      const block = blocks[i];
+      if (block.type === 'image' && ++seen > keep) {
+        removed++;
+        result.unshift({ type: 'text', text: IMAGE_PLACEHOLDER });
+      } else {
+        result.unshift(block);
+      }
+    }
+    return result;
+  };
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (typeof message.content === 'string') continue;
+
+    // Walk blocks newest first so that the most recent images are the ones kept
+    const content: BetaContentBlockParam[] = [];
+    for (let j = message.content.length - 1; j >= 0; j--) {
+      const block = message.content[j];
+      if (block.type === 'tool_result' && Array.isArray(block.content)) {
+        content.unshift({
+          ...block,
+          content: prune(block.content),
+        } as BetaContentBlockParam);
+      } else {
+        content.unshift(...(prune([block]) as BetaContentBlockParam[]));
+      }
+    }
+    message.content = content;
+  }
+
+  return removed;
+}
+
+/**
+ * Renders a conversation as plain text for summarization. Images are omitted and long
+ * blocks are truncated.
+ * @param {BetaMessageParam[]} messages - Conversation to render
+ */
+export function renderTranscript(messages: BetaMessageParam[]): string {
+  const renderBlock = (block: BetaContentBlockParam): string => {
+    switch (block.type) {
+      case 'text':
+        return truncateText(block.text, 4000);
+      case 'image':
+        return '[image]';
+      case 'tool_use':
+        return `[tool call ${block.name}] ${truncateText(JSON.stringify(block.input), 2000)}`;
+      case 'tool_result': {
+        const content =
+          typeof block.content === 'string'
+            ? block.content
+            : (block.content ?? [])
+                .map((part) =>
+                  part.type === 'text'
+                    ? truncateText(part.text, 2000)
+                    : '[image]'
+                )
+                .join('\n');
+        return `[tool result${block.is_error ? ', error' : ''}] ${content}`;
+      }
+      default:
+        return `[${block.type}]`;
+    }
+  };
+
+  return messages
+    .map((message) => {
+      const content =
+        typeof message.content === 'string'
+          ? message.content
+          : message.content.map(renderBlock).join('\n');
+      return `${message.role.toUpperCase()}:\n${content}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Replaces older turns with a model-written summary. The most recent messages are kept
+ * verbatim, starting at an assistant message so that no tool result loses its tool call.
+ *
+ * @param {string} task - Task of the run, repeated above the summary
+ * @param {BetaMessageParam[]} messages - Conversation to compact
+ * @param {ModelProvider} provider - Provider that writes the summary
+ * @param {SummarizeOptions} options - How many messages to keep and how long the summary may be
+ * @param {AbortSignal} signal - Optional abort signal forwarded to the model request
+ * @returns The compacted conversation and the usage of the summary request, or null if there
+ * is nothing old enough to summarize
+ */
+export async function summarizeHistory(
+  task: string,
+  messages: BetaMessageParam[],
+  provider: ModelProvider,
+  options: Omit<SummarizeOptions, 'thresholdTokens' | 'provider'> = {},
+  signal?: AbortSignal
+): Promise<{ messages: BetaMessageParam[]; usage: ModelUsage } | null> {
+  const keepRecent = options.keepRecentMessages ?? 6;
+  let cut = Math.min(messages.length - keepRecent, messages.length - 1);
+  while (cut > 1 && messages[cut].role !== 'assistant') {
+    cut--;
+  }
+  if (cut <= 1) return null;
+
+  const response = await provider.createMessage({
+    system: SUMMARY_PROMPT,
+    messages: [
+      { role: 'user', content: renderTranscript(messages.slice(0, cut)) },
+    ],
+    tools: [],
+    maxTokens: options.maxTokens ?? 2048,
+    signal,
+  });
+
+  // A previous summary is folded into the new one, so only the task is carried over
+  const summary: BetaMessageParam = {
+    role: 'user',
+    content: `${task}\n\n<progress_summary>\nEarlier turns of this task were summarized to save context:\n${response.text}\n</progress_summary>`,
+  };
+
+  return {
+    messages: [summary, ...messages.slice(cut)],
+    usage: response.usage,
+  };
+}
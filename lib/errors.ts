@@ -0,0 +1,186 @@
+import type { ModelResponse } from './providers/types';
+import type { Action } from './schemas/action';
+import type { ToolResult } from './types';
+
+/**
+ * Base class for all errors thrown by the SDK
+ */
+export class ComputerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ComputerError';
+  }
+}
+
+/**
+ * Thrown when an operation requires a connection (WebSocket or MCP client) that has not been established
+ */
+export class NotConnectedError extends ComputerError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotConnectedError';
+  }
+}
+
+/**
+ * Thrown when the WebSocket connection to the computer is lost while a command is in flight,
+ * or when reconnecting fails
+ */
+export class ConnectionLostError extends ComputerError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConnectionLostError';
+  }
+}
+
+/**
+ * Thrown when the server sends a message that does not match the expected protocol
+ */
+export class ProtocolError extends ComputerError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+/**
+ * Thrown when a tool reports an error in its result
+ * @property result - The ToolResult returned by the server
+ * @property command - The action that produced the result
+ */
+export class ToolExecutionError extends ComputerError {
+  readonly result: ToolResult;
+  readonly command: Action;
+
+  constructor(result: ToolResult, command: Action) {
+    super(`Tool '${command.tool}' failed: ${result.error}`);
+    this.name = 'ToolExecutionError';
+    this.result = result;
+    this.command = command;
+  }
+}
+
+/**
+ * Thrown when the MCP server registration endpoint responds with a non-2xx status
+ * @property status - HTTP status code
+ * @property statusText - HTTP status text
+ * @property body - Raw response body
+ */
+export class McpServerError extends ComputerError {
+  readonly status: number;
+  readonly statusText: string;
+  readonly body: string;
+
+  constructor(status: number, statusText: string, body: string) {
+    super(`${status} ${statusText}: ${body}`);
+    this.name = 'McpServerError';
+    this.status = status;
+    this.statusText = statusText;
+    this.body = body;
+  }
+}
+
+/**
+ * Thrown when the machine metadata welcome message does not arrive in time
+ */
+export class MetadataTimeoutError extends ComputerError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetadataTimeoutError';
+  }
+}
+
+/**
+ * Thrown when a command does not receive a response within its timeout
+ */
+export class ComputerTimeoutError extends ComputerError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ComputerTimeoutError';
+  }
+}
+
+/**
+ * Thrown when an operation is cancelled through an AbortSignal
+ */
+export class AbortError extends ComputerError {
+  constructor(message: string = 'The operation was aborted') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Thrown by a strict ReplayComputer when an executed action does not match the recording
+ */
+export class ReplayDivergenceError extends ComputerError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayDivergenceError';
+  }
+}
+
+/**
+ * Thrown when a model provider's API responds with an error
+ * @property provider - Name of the provider
+ * @property status - HTTP status code
+ * @property body - Raw response body
+ */
+export class ProviderError extends ComputerError {
+  readonly provider: string;
+  readonly status: number;
+  readonly body: string;
+
+  constructor(provider: string, status: number, body: string) {
+    super(`${provider} request failed with ${status}: ${body}`);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * Thrown when a streamed model response ends before the message is complete
+ * @property provider - Name of the provider
+ * @property partial - The content blocks that completed before the interruption, if any
+ */
+export class StreamInterruptedError extends ComputerError {
+  readonly provider: string;
+  readonly partial: ModelResponse | null;
+
+  constructor(
+    provider: string,
+    message: string,
+    partial: ModelResponse | null = null
+  ) {
+    super(`${provider} stream was interrupted: ${message}`);
+    this.name = 'StreamInterruptedError';
+    this.provider = provider;
+    this.partial = partial;
+  }
+}
+
+/**
+ * Thrown when an AgentSession is asked to start a run while another run is in progress
+ */
+export class SessionBusyError extends ComputerError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionBusyError';
+  }
+}
+
+/**
+ * Thrown when a remote filesystem operation fails or a transfer exceeds its limits
+ * @property path - Remote path the operation was applied to
+ */
+export class RemoteFileError extends ComputerError {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'RemoteFileError';
+    this.path = path;
+  }
+}
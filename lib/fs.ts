@@ -0,0 +1,445 @@
+// filesystem of the remote computer, built on the str_replace_editor and bash tools
+import { createHash, randomUUID } from 'crypto';
+import path from 'path';
+import type { Computer, ExecuteOptions } from './computer';
+import { ProtocolError, RemoteFileError } from './errors';
+import type { EditParams } from './schemas/editActions';
+import type { ToolResult } from './types';
+import { shellQuote } from './utils/shell';
+
+export type FileType = 'file' | 'directory' | 'symlink' | 'other';
+
+/**
+ * Information about a remote file
+ * @property path - Path of the file
+ * @property type - Kind of file; symlinks are not followed
+ * @property size - Size in bytes
+ * @property mode - Permission bits, e.g. 0o644
+ * @property modifiedAt - Time of the last modification
+ */
+export interface FileStat {
+  path: string;
+  type: FileType;
+  size: number;
+  mode: number;
+  modifiedAt: Date;
+}
+
+/**
+ * An entry of a remote directory
+ */
+export interface DirEntry {
+  name: string;
+  type: FileType;
+  size: number;
+}
+
+/**
+ * Options for RemoteFileSystem.readFile()
+ */
+export interface ReadFileOptions {
+  /** First and last line to read, 1-based and inclusive; a last line of -1 reads to the end */
+  range?: [number, number];
+}
+
+/**
+ * Options for RemoteFileSystem.writeFile()
+ */
+export interface WriteFileOptions {
+  /** Replace the file if it exists; the editor refuses to otherwise */
+  overwrite?: boolean;
+}
+
+/**
+ * Options for RemoteFileSystem.upload() and RemoteFileSystem.download()
+ */
+export interface TransferOptions
+  extends Pick<ExecuteOptions, 'signal' | 'timeoutMs'> {
+  /** Largest file that may be transferred, defaults to 10 MiB */
+  maxBytes?: number;
+  /** Bytes sent or received per command, defaults to 48 KiB */
+  chunkBytes?: number;
+}
+
+/**
+ * A file that was uploaded or downloaded
+ * @property path - Remote path of the file
+ * @property size - Size in bytes
+ * @property sha256 - Hex encoded SHA-256 checksum, verified on both ends
+ */
+export interface TransferResult {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+/**
+ * A file that was downloaded, together with its contents
+ */
+export interface DownloadResult extends TransferResult {
+  data: Buffer;
+}
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_CHUNK_BYTES = 48 * 1024;
+
+// Header of the str_replace_editor view command
+const VIEW_HEADER = /^Here's the result of running `cat -n` on .*:\n/;
+
+const fileTypes: Record<string, FileType> = {
+  f: 'file',
+  d: 'directory',
+  l: 'symlink',
+};
+
+/**
+ * Computes the hex encoded SHA-256 checksum of some data
+ * @private
+ */
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Rejects relative paths, which the remote tools resolve differently
+ * @private
+ */
+function assertAbsolute(remotePath: string) {
+  if (!path.posix.isAbsolute(remotePath)) {
+    throw new TypeError(`Remote paths must be absolute, got '${remotePath}'`);
+  }
+}
+
+/**
+ * Files of a Computer, available as computer.fs. Text files are read and edited with the
+ * str_replace_editor tool, so edits can be undone; directories, metadata and binary
+ * transfers use bash.
+ *
+ * @example
+ * await computer.fs.writeFile('/etc/app.conf', 'port = 8080\n', { overwrite: true });
+ * await computer.fs.replace('/etc/app.conf', '8080', '9090');
+ * const text = await computer.fs.readFile('/etc/app.conf');
+ * const { data } = await computer.fs.download('/build/app.tar.gz');
+ */
+export class RemoteFileSystem {
+  private computer: Computer;
+
+  /**
+   * Creates a new RemoteFileSystem instance
+   * @param {Computer} computer - Computer whose files are accessed
+   */
+  constructor(computer: Computer) {
+    this.computer = computer;
+  }
+
+  /**
+   * Reads a text file. The editor expands tabs to spaces when it shows a file, so tabs are
+   * not preserved; use download() for exact contents.
+   * @param {string} remotePath - Absolute path of the file
+   * @param {ReadFileOptions} options - Lines to read
+   * @returns {Promise<string>} The contents of the file, without line numbers
+   * @throws {ToolExecutionError} If the file cannot be read
+   */
+  public async readFile(
+    remotePath: string,
+    options: ReadFileOptions = {}
+  ): Promise<string> {
+    const { output } = await this.edit({
+      command: 'view',
+      path: remotePath,
+      view_range: options.range,
+    });
+    if (!output || !VIEW_HEADER.test(output)) {
+      throw new ProtocolError(`Unexpected view output for ${remotePath}`);
+    }
+    return output
+      .replace(VIEW_HEADER, '')
+      .replace(/\n$/, '')
+      .split('\n')
+      .map((line) => line.replace(/^ *\d+\t/, ''))
+      .join('\n');
+  }
+
+  /**
+   * Creates a text file
+   * @param {string} remotePath - Absolute path of the file
+   * @param {string} content - Contents of the file
+   * @param {WriteFileOptions} options - Whether an existing file may be replaced
+   * @throws {ToolExecutionError} If the file exists and overwrite is not set, or cannot be written
+   */
+  public async writeFile(
+    remotePath: string,
+    content: string,
+    options: WriteFileOptions = {}
+  ): Promise<void> {
+    assertAbsolute(remotePath);
+    if (options.overwrite) {
+      await this.run(`rm -f ${shellQuote(remotePath)}`, remotePath);
+    }
+    await this.edit({
+      command: 'create',
+      path: remotePath,
+      file_text: content,
+    });
+  }
+
+  /**
+   * Replaces text in a file; the text must occur exactly once
+   * @param {string} remotePath - Absolute path of the file
+   * @param {string} oldText - Text to replace
+   * @param {string} newText - Replacement, defaults to removing the text
+   * @throws {ToolExecutionError} If the text does not occur exactly once
+   */
+  public async replace(
+    remotePath: string,
+    oldText: string,
+    newText: string = ''
+  ): Promise<void> {
+    await this.edit({
+      command: 'str_replace',
+      path: remotePath,
+      old_str: oldText,
+      new_str: newText,
+    });
+  }
+
+  /**
+   * Inserts text after a line of a file
+   * @param {string} remotePath - Absolute path of the file
+   * @param {number} line - Line after which the text is inserted; 0 inserts at the start
+   * @param {string} text - Text to insert
+   * @throws {ToolExecutionError} If the line is out of range
+   */
+  public async insertAt(
+    remotePath: string,
+    line: number,
+    text: string
+  ): Promise<void> {
+    await this.edit({
+      command: 'insert',
+      path: remotePath,
+      insert_line: line,
+      new_str: text,
+    });
+  }
+
+  /**
+   * Reverts the last edit made to a file with writeFile(), replace() or insertAt()
+   * @param {string} remotePath - Absolute path of the file
+   * @throws {ToolExecutionError} If the file has no edit history
+   */
+  public async undo(remotePath: string): Promise<void> {
+    await this.edit({ command: 'undo_edit', path: remotePath });
+  }
+
+  /**
+   * Lists the entries of a directory
+   * @param {string} remotePath - Absolute path of the directory
+   * @returns {Promise<DirEntry[]>} The entries, sorted by name
+   * @throws {RemoteFileError} If the directory cannot be read
+   */
+  public async listDir(remotePath: string): Promise<DirEntry[]> {
+    const output = await this.run(
+      `find ${shellQuote(remotePath)} -mindepth 1 -maxdepth 1 -printf '%y\\t%s\\t%f\\n'`,
+      remotePath
+    );
+    return output
+      .split('\n')
+      .filter((line) => line.length > 0)
+      .map((line) => {
+        const [type, size, ...name] = line.split('\t');
+        return {
+          name: name.join('\t'),
+          type: fileTypes[type] ?? 'other',
+          size: Number(size),
+        };
+      })
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  }
+
+  /**
+   * Checks whether a path exists
+   * @param {string} remotePath - Absolute path to check
+   * @returns {Promise<boolean>} True for files, directories and symlinks, even broken ones
+   */
+  public async exists(remotePath: string): Promise<boolean> {
+    assertAbsolute(remotePath);
+    const quoted = shellQuote(remotePath);
+    const output = await this.run(
+      `{ [ -e ${quoted} ] || [ -L ${quoted} ]; } && echo yes || echo no`,
+      remotePath
+    );
+    return output.trim() === 'yes';
+  }
+
+  /**
+   * Gets information about a file, without following symlinks
+   * @param {string} remotePath - Absolute path of the file
+   * @returns {Promise<FileStat>} The file's type, size, mode and modification time
+   * @throws {RemoteFileError} If the file does not exist
+   */
+  public async stat(remotePath: string): Promise<FileStat> {
+    const output = await this.run(
+      `find ${shellQuote(remotePath)} -maxdepth 0 -printf '%y\\t%s\\t%m\\t%T@\\n'`,
+      remotePath
+    );
+    const [type, size, mode, modified] = output.trim().split('\t');
+    return {
+      path: remotePath,
+      type: fileTypes[type] ?? 'other',
+      size: Number(size),
+      mode: parseInt(mode, 8),
+      modifiedAt: new Date(Number(modified) * 1000),
+    };
+  }
+
+  /**
+   * Writes binary data to a file, replacing it if it exists. The data is sent base64
+   * encoded in chunks and its checksum is verified once it has been written.
+   * @param {string} remotePath - Absolute path of the file
+   * @param {Uint8Array | string} data - Contents of the file; strings are encoded as UTF-8
+   * @param {TransferOptions} options - Size limit, chunk size and cancellation settings
+   * @returns {Promise<TransferResult>} The size and checksum of the file
+   * @throws {RemoteFileError} If the data exceeds maxBytes, cannot be written or fails verification
+   */
+  public async upload(
+    remotePath: string,
+    data: Uint8Array | string,
+    options: TransferOptions = {}
+  ): Promise<TransferResult> {
+    assertAbsolute(remotePath);
+    const { maxBytes = DEFAULT_MAX_BYTES, chunkBytes = DEFAULT_CHUNK_BYTES } =
+      options;
+    const buffer = Buffer.from(data);
+    if (buffer.length > maxBytes) {
+      throw new RemoteFileError(
+        remotePath,
+        `${buffer.length} bytes exceeds the upload limit of ${maxBytes} bytes`
+      );
+    }
+
+    const encoded = buffer.toString('base64');
+    const step = Math.ceil(chunkBytes / 3) * 4;
+    const staging = shellQuote(`${remotePath}.${randomUUID()}.b64`);
+    const target = shellQuote(remotePath);
+    let output: string;
+    try {
+      for (let offset = 0; offset === 0 || offset < encoded.length; ) {
+        const chunk = encoded.slice(offset, offset + step);
+        const redirect = offset === 0 ? '>' : '>>';
+        await this.run(
+          `printf '%s' ${shellQuote(chunk)} ${redirect} ${staging}`,
+          remotePath,
+          options
+        );
+        offset += step;
+      }
+      output = await this.run(
+        `base64 -d ${staging} > ${target} && sha256sum ${target}`,
+        remotePath,
+        options
+      );
+    } finally {
+      await this.computer.bash(`rm -f ${staging}`).catch(() => {});
+    }
+
+    const checksum = sha256(buffer);
+    this.verify(remotePath, checksum, output);
+    return { path: remotePath, size: buffer.length, sha256: checksum };
+  }
+
+  /**
+   * Reads a file as binary data. The file is received base64 encoded in chunks and its
+   * checksum is verified against the remote file.
+   * @param {string} remotePath - Absolute path of the file
+   * @param {TransferOptions} options - Size limit, chunk size and cancellation settings
+   * @returns {Promise<DownloadResult>} The contents, size and checksum of the file
+   * @throws {RemoteFileError} If the file is not a regular file, exceeds maxBytes or fails verification
+   */
+  public async download(
+    remotePath: string,
+    options: TransferOptions = {}
+  ): Promise<DownloadResult> {
+    const { maxBytes = DEFAULT_MAX_BYTES, chunkBytes = DEFAULT_CHUNK_BYTES } =
+      options;
+    const { type, size } = await this.stat(remotePath);
+    if (type !== 'file') {
+      throw new RemoteFileError(remotePath, `Not a regular file (${type})`);
+    }
+    if (size > maxBytes) {
+      throw new RemoteFileError(
+        remotePath,
+        `${size} bytes exceeds the download limit of ${maxBytes} bytes`
+      );
+    }
+
+    const source = shellQuote(remotePath);
+    const chunks: Buffer[] = [];
+    for (let index = 0; index * chunkBytes < size; index++) {
+      const output = await this.run(
+        `dd if=${source} bs=${chunkBytes} skip=${index} count=1 status=none | base64 -w0`,
+        remotePath,
+        options
+      );
+      chunks.push(Buffer.from(output.trim(), 'base64'));
+    }
+    const data = Buffer.concat(chunks);
+    const checksum = sha256(data);
+    this.verify(
+      remotePath,
+      checksum,
+      await this.run(`sha256sum ${source}`, remotePath, options)
+    );
+    return { path: remotePath, size: data.length, sha256: checksum, data };
+  }
+
+  /**
+   * Runs a str_replace_editor command, throwing if the tool reports an error
+   * @private
+   */
+  private async edit(params: EditParams): Promise<ToolResult> {
+    assertAbsolute(params.path);
+    const message = await this.computer.execute(
+      { tool: 'str_replace_editor', params },
+      { throwOnToolError: true }
+    );
+    return message.tool_result;
+  }
+
+  /**
+   * Runs a bash command and returns its stdout, throwing with its stderr if it fails
+   * @private
+   */
+  private async run(
+    command: string,
+    remotePath: string,
+    options: TransferOptions = {}
+  ): Promise<string> {
+    assertAbsolute(remotePath);
+    const { exitCode, stdout, stderr } = await this.computer.bash(command, {
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+    });
+    if (exitCode !== 0) {
+      throw new RemoteFileError(
+        remotePath,
+        stderr.trim() || `Command exited with status ${exitCode}`
+      );
+    }
+    return stdout;
+  }
+
+  /**
+   * Compares a checksum with the output of sha256sum
+   * @private
+   */
+  private verify(remotePath: string, checksum: string, output: string) {
+    const remote = output.trim().split(/\s+/)[0];
+    if (remote !== checksum) {
+      throw new RemoteFileError(
+        remotePath,
+        `Checksum mismatch: expected ${checksum}, got ${remote || 'nothing'}`
+      );
+    }
+  }
+}
@@ -1,5 +1,161 @@
 import * as schemas from './schemas';
 import * as utils from './utils';
-import { Computer } from './computer';
+import * as providers from './providers';
+import {
+  Computer,
+  type ClickOptions,
+  type MouseButton,
+  type CommandCompletedEvent,
+  type Point,
+} from './computer';
+import type {
+  AgentEvent,
+  AgentHooks,
+  RunResult,
+  ToolCallDecision,
+  ToolCallRecord,
+  UseComputerOptions,
+} from './agent';
+import type { ContextStrategy, SummarizeOptions } from './context';
+import { defaultToolConcurrency, type ToolConcurrency } from './toolScheduling';
+import {
+  AgentSession,
+  type AgentSessionOptions,
+  type SerializedAgentSession,
+} from './session';
+import {
+  buildSystemPrompt,
+  systemPromptPresets,
+  type SystemPromptOptions,
+  type SystemPromptPreset,
+} from './systemPrompt';
+import {
+  consoleApprover,
+  type ActionPolicy,
+  type ApprovalRequest,
+  type Approver,
+  type PolicyDecision,
+  type PolicyRule,
+} from './policy';
+import type { ToolDefinition, ToolVersion } from './tools';
+import type { OutputChunk } from './types';
+import type { BashOptions, BashResult, Shell, ShellOptions } from './shell';
+import type {
+  DirEntry,
+  DownloadResult,
+  FileStat,
+  FileType,
+  ReadFileOptions,
+  RemoteFileSystem,
+  TransferOptions,
+  TransferResult,
+  WriteFileOptions,
+} from './fs';
+import {
+  SessionRecorder,
+  describeAction,
+  type AnimationOptions,
+  type PointerMarker,
+  type RecordedFrame,
+  type RecorderOptions,
+  type RenderOptions,
+  type ReportOptions,
+} from './recorder';
+import {
+  CoordinateScaler,
+  scalingTargets,
+  type ScalingOption,
+  type ScreenSize,
+} from './scaling';
+import {
+  AbortError,
+  ComputerError,
+  ComputerTimeoutError,
+  ConnectionLostError,
+  McpServerError,
+  MetadataTimeoutError,
+  NotConnectedError,
+  ProtocolError,
+  ProviderError,
+  RemoteFileError,
+  ReplayDivergenceError,
+  SessionBusyError,
+  StreamInterruptedError,
+  ToolExecutionError,
+} from './errors';
 
-export { schemas, utils, Computer };
+export {
+  schemas,
+  utils,
+  providers,
+  Computer,
+  AgentSession,
+  SessionRecorder,
+  AbortError,
+  ComputerError,
+  ComputerTimeoutError,
+  ConnectionLostError,
+  McpServerError,
+  MetadataTimeoutError,
+  NotConnectedError,
+  ProtocolError,
+  ProviderError,
+  RemoteFileError,
+  ReplayDivergenceError,
+  SessionBusyError,
+  StreamInterruptedError,
+  ToolExecutionError,
+  buildSystemPrompt,
+  systemPromptPresets,
+  defaultToolConcurrency,
+  consoleApprover,
+  CoordinateScaler,
+  scalingTargets,
+  describeAction,
+  type ActionPolicy,
+  type AgentEvent,
+  type AgentHooks,
+  type AgentSessionOptions,
+  type AnimationOptions,
+  type ApprovalRequest,
+  type Approver,
+  type BashOptions,
+  type BashResult,
+  type ClickOptions,
+  type CommandCompletedEvent,
+  type ContextStrategy,
+  type DirEntry,
+  type DownloadResult,
+  type FileStat,
+  type FileType,
+  type MouseButton,
+  type OutputChunk,
+  type Point,
+  type PointerMarker,
+  type PolicyDecision,
+  type PolicyRule,
+  type ReadFileOptions,
+  type RecordedFrame,
+  type RecorderOptions,
+  type RemoteFileSystem,
+  type RenderOptions,
+  type ReportOptions,
+  type RunResult,
+  type ScalingOption,
+  type ScreenSize,
+  type SerializedAgentSession,
+  type Shell,
+  type ShellOptions,
+  type SummarizeOptions,
+  type SystemPromptOptions,
+  type SystemPromptPreset,
+  type ToolCallDecision,
+  type ToolCallRecord,
+  type ToolConcurrency,
+  type ToolDefinition,
+  type ToolVersion,
+  type TransferOptions,
+  type TransferResult,
+  type UseComputerOptions,
+  type WriteFileOptions,
+};
@@ -0,0 +1,362 @@
+// declarative approval policy for tool calls made by the agent
+import path from 'path';
+import { createInterface } from 'readline/promises';
+import type { ToolCall } from './providers';
+import { bashTool, editTool } from './tools';
+
+/**
+ * What happens to a tool call matched by a rule
+ */
+export type PolicyDecision = 'allow' | 'deny' | 'ask';
+
+/**
+ * A rule of an ActionPolicy. Every condition that is set must match; a rule without
+ * conditions matches every tool call. String patterns are globs where `*` matches anything.
+ * @property decision - Whether matching tool calls are allowed, denied or need approval
+ * @property tool - Tool name, e.g. 'bash', 'computer', 'str_replace_editor' or an MCP tool
+ * @property command - Bash command pattern. A RegExp is tested against the whole command; a
+ * glob is matched against each command in it, as returned by splitShellCommands
+ * @property path - Pattern matched against the path of editor calls
+ * @property outside - Matches editor calls whose path is outside this directory. Bash calls
+ * are not checked, as the files a command writes cannot be told from its text
+ * @property write - Matches editor calls that change files (true) or only view them (false)
+ * @property match - Custom condition
+ * @property reason - Explanation shown to the approver and sent to the model when denied
+ */
+export interface PolicyRule {
+  decision: PolicyDecision;
+  tool?: string | RegExp;
+  command?: string | RegExp;
+  path?: string | RegExp;
+  outside?: string;
+  write?: boolean;
+  match?: (toolCall: ToolCall) => boolean;
+  reason?: string;
+}
+
+/**
+ * A tool call awaiting approval
+ * @property toolCall - The tool call
+ * @property rule - The rule that asked for approval, or null for the policy default
+ */
+export interface ApprovalRequest {
+  toolCall: ToolCall;
+  rule: PolicyRule | null;
+}
+
+/**
+ * Decides whether a tool call that needs approval may run
+ */
+export type Approver = (
+  request: ApprovalRequest
+) =>
+  | boolean
+  | { approved: boolean; reason?: string }
+  | Promise<boolean | { approved: boolean; reason?: string }>;
+
+/**
+ * Rules that decide which tool calls the agent may make. Rules are checked in order and
+ * the first match decides.
+ * @property rules - Rules, in order of precedence
+ * @property defaultDecision - Decision when no rule matches, defaults to 'allow'
+ * @property approver - Decides 'ask' calls; without one they are denied
+ */
+export interface ActionPolicy {
+  rules: PolicyRule[];
+  defaultDecision?: PolicyDecision;
+  approver?: Approver;
+}
+
+/**
+ * Outcome of applying a policy to a tool call
+ * @property allowed - Whether the tool call may run
+ * @property reason - Why it was denied
+ */
+export interface PolicyOutcome {
+  allowed: boolean;
+  reason?: string;
+}
+
+/**
+ * Converts a glob where `*` matches anything into an anchored RegExp. A trailing ` *` also
+ * matches nothing, so that `'rm *'` matches `rm` without arguments.
+ * @private
+ */
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped.replace(/ \.\*$/, '(?: .*)?')}$`, 's');
+}
+
+/**
+ * Tests a value against a string glob or RegExp
+ * @private
+ */
+function matches(pattern: string | RegExp, value: string): boolean {
+  return typeof pattern === 'string'
+    ? globToRegExp(pattern).test(value)
+    : pattern.test(value);
+}
+
+/**
+ * Commands that run their arguments as another command, with the options that take a value
+ * and the number of operands before that command
+ * @private
+ */
+const COMMAND_WRAPPERS: Record<
+  string,
+  { options: string[]; operands?: number }
+> = {
+  sudo: { options: ['-u', '-g', '-C', '-D', '-h', '-p', '-r', '-t', '-U'] },
+  doas: { options: ['-u', '-C'] },
+  env: { options: ['-u', '-C', '-S'] },
+  command: { options: [] },
+  exec: { options: ['-a'] },
+  builtin: { options: [] },
+  nohup: { options: [] },
+  nice: { options: ['-n'] },
+  time: { options: ['-f', '-o'] },
+  timeout: { options: ['-s', '-k'], operands: 1 },
+  xargs: { options: ['-a', '-d', '-E', '-I', '-L', '-n', '-P', '-s'] },
+};
+
+/**
+ * Shells whose `-c` argument, like the arguments of eval, is itself a command line
+ * @private
+ */
+const SHELLS = new Set(['sh', 'bash', 'dash', 'zsh', 'ksh', 'eval']);
+
+/**
+ * Reserved words that may precede a command
+ * @private
+ */
+const SHELL_KEYWORDS = new Set([
+  '!',
+  '{',
+  '}',
+  'if',
+  'then',
+  'elif',
+  'else',
+  'fi',
+  'while',
+  'until',
+  'do',
+  'done',
+]);
+
+const ASSIGNMENT = /^[A-Za-z_]\w*=/;
+
+/**
+ * Strips what runs a command without being it: reserved words, variable assignments,
+ * wrappers such as sudo or xargs and the directory of the executable. The command line
+ * of `bash -c` and eval is split as well.
+ * @private
+ */
+function unwrapCommand(command: string): string[] {
+  const words = command.split(/\s+/).filter((word) => word.length > 0);
+  let i = 0;
+  while (i < words.length) {
+    if (SHELL_KEYWORDS.has(words[i]) || ASSIGNMENT.test(words[i])) {
+      i++;
+      continue;
+    }
+    const name = path.posix.basename(words[i].replace(/^\\/, ''));
+    const unwrapped = [name, ...words.slice(i + 1)].join(' ');
+
+    const wrapper = Object.hasOwn(COMMAND_WRAPPERS, name)
+      ? COMMAND_WRAPPERS[name]
+      : undefined;
+    if (wrapper) {
+      let operands = wrapper.operands ?? 0;
+      i++;
+      while (i < words.length && (words[i].startsWith('-') || operands > 0)) {
+        if (!words[i].startsWith('-')) operands--;
+        i += wrapper.options.includes(words[i]) ? 2 : 1;
+      }
+      continue;
+    }
+
+    if (SHELLS.has(name)) {
+      const script =
+        name === 'eval'
+          ? i + 1
+          : words.findIndex((word, j) => j > i && /^-\w*c\w*$/.test(word)) + 1;
+      if (script > i) {
+        const inner = words
+          .slice(script)
+          .join(' ')
+          .replace(/^['"]|['"]$/g, '');
+        return [unwrapped, ...splitShellCommands(inner)];
+      }
+    }
+    return [unwrapped];
+  }
+  return [];
+}
+
+/**
+ * Splits a shell command line into the individual commands it runs. Subshells, command
+ * substitutions and the command lines of `bash -c` or eval are split as well, and each
+ * command is stripped of wrappers such as sudo, env or xargs, of variable assignments and of
+ * the directory of its executable. Quoting is not parsed, so quoted separators split too.
+ * @param {string} command - Command line
+ * @returns {string[]} Commands, with their words separated by single spaces
+ */
+export function splitShellCommands(command: string): string[] {
+  return command
+    .split(/&&|\|\||\$\(|[;|&\n`()]/)
+    .flatMap((part) => unwrapCommand(part.trim()));
+}
+
+/**
+ * Checks whether a rule matches a tool call
+ * @param {PolicyRule} rule - Rule to check
+ * @param {ToolCall} toolCall - Tool call to check
+ */
+export function ruleMatches(rule: PolicyRule, toolCall: ToolCall): boolean {
+  if (rule.tool !== undefined && !matches(rule.tool, toolCall.name)) {
+    return false;
+  }
+
+  if (rule.command !== undefined) {
+    const command = toolCall.input.command;
+    if (toolCall.name !== bashTool.name || typeof command !== 'string') {
+      return false;
+    }
+    const commandMatches =
+      typeof rule.command === 'string'
+        ? splitShellCommands(command).some((part) =>
+            matches(rule.command!, part)
+          )
+        : rule.command.test(command);
+    if (!commandMatches) return false;
+  }
+
+  if (
+    rule.path !== undefined ||
+    rule.outside !== undefined ||
+    rule.write !== undefined
+  ) {
+    const filePath = toolCall.input.path;
+    if (toolCall.name !== editTool.name || typeof filePath !== 'string') {
+      return false;
+    }
+    if (rule.path !== undefined && !matches(rule.path, filePath)) {
+      return false;
+    }
+    if (rule.outside !== undefined) {
+      const relative = path.posix.relative(
+        path.posix.resolve(rule.outside),
+        path.posix.resolve(rule.outside, filePath)
+      );
+      if (!relative.startsWith('..') && !path.posix.isAbsolute(relative)) {
+        return false;
+      }
+    }
+    if (
+      rule.write !== undefined &&
+      (toolCall.input.command !== 'view') !== rule.write
+    ) {
+      return false;
+    }
+  }
+
+  return rule.match === undefined || rule.match(toolCall);
+}
+
+/**
+ * Finds the decision a policy makes for a tool call, without asking the approver
+ * @param {ActionPolicy} policy - Policy to evaluate
+ * @param {ToolCall} toolCall - Tool call to evaluate
+ * @returns The decision and the rule that made it, or null for the policy default
+ */
+export function evaluatePolicy(
+  policy: ActionPolicy,
+  toolCall: ToolCall
+): { decision: PolicyDecision; rule: PolicyRule | null } {
+  const rule = policy.rules.find((candidate) =>
+    ruleMatches(candidate, toolCall)
+  );
+  return rule
+    ? { decision: rule.decision, rule }
+    : { decision: policy.defaultDecision ?? 'allow', rule: null };
+}
+
+/**
+ * Applies a policy to a tool call, asking the approver when a rule requires it
+ * @param {ActionPolicy} policy - Policy to apply
+ * @param {ToolCall} toolCall - Tool call to check
+ * @returns {Promise<PolicyOutcome>} Whether the tool call may run, and why not
+ */
+export async function applyPolicy(
+  policy: ActionPolicy,
+  toolCall: ToolCall
+): Promise<PolicyOutcome> {
+  const { decision, rule } = evaluatePolicy(policy, toolCall);
+  const reason = rule?.reason;
+
+  switch (decision) {
+    case 'allow':
+      return { allowed: true };
+    case 'deny':
+      return { allowed: false, reason: reason ?? 'denied by policy' };
+    case 'ask': {
+      if (!policy.approver) {
+        return {
+          allowed: false,
+          reason: reason ?? 'approval required but no approver is configured',
+        };
+      }
+      const answer = await policy.approver({ toolCall, rule });
+      const approval =
+        typeof answer === 'boolean' ? { approved: answer } : answer;
+      return approval.approved
+        ? { allowed: true }
+        : {
+            allowed: false,
+            reason: approval.reason ?? reason ?? 'denied by the approver',
+          };
+    }
+  }
+}
+
+/**
+ * Creates an approver that asks on the terminal. Questions are asked one at a time, even
+ * when tool calls run in parallel.
+ * @param options - Streams to use, defaults to process.stdin and process.stdout
+ * @returns {Approver} An approver that accepts 'y' or 'yes'
+ */
+export function consoleApprover(
+  options: {
+    input?: NodeJS.ReadableStream;
+    output?: NodeJS.WritableStream;
+  } = {}
+): Approver {
+  let previous: Promise<unknown> = Promise.resolve();
+
+  return (request) => {
+    const ask = async () => {
+      const rl = createInterface({
+        input: options.input ?? process.stdin,
+        output: options.output ?? process.stdout,
+      });
+      try {
+        const { toolCall, rule } = request;
+        const because = rule?.reason ? ` (${rule.reason})` : '';
+        const answer = await rl.question(
+          `The agent wants to run ${toolCall.name}${because}:\n` +
+            `${JSON.stringify(toolCall.input, null, 2)}\nAllow? [y/N] `
+        );
+        return /^y(es)?$/i.test(answer.trim());
+      } finally {
+        rl.close();
+      }
+    };
+    const result = previous.then(ask, ask);
+    previous = result;
+    return result;
+  };
+}
@@ -0,0 +1,339 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type {
+  AnthropicBeta,
+  BetaContentBlockParam,
+  BetaMessageParam,
+  BetaToolUnion,
+  BetaUsage,
+} from '@anthropic-ai/sdk/resources/beta/index.mjs';
+import type { MessageCreateParamsNonStreaming } from '@anthropic-ai/sdk/resources/beta/messages/messages.mjs';
+import { StreamInterruptedError } from '../errors';
+import { computerUseBeta } from '../tools';
+import { defaultSamplingOptions } from '../types';
+import { createModuleLogger } from '../utils/logger';
+import type {
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  ModelStopReason,
+  ModelStreamHandlers,
+  ModelUsage,
+  ToolCall,
+} from './types';
+
+const logger = createModuleLogger('AnthropicProvider');
+
+// Number of recent user messages marked as cache breakpoints. Together with the system
+// prompt and tools this stays within the API's limit of four breakpoints.
+const MESSAGE_CACHE_BREAKPOINTS = 2;
+
+/**
+ * A content block that is still being streamed
+ * @private
+ */
+type StreamingBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; json: string };
+
+/**
+ * Configuration options for the AnthropicProvider
+ * @property model - Claude model to use, defaults to defaultSamplingOptions.model
+ * @property client - Preconfigured Anthropic client, defaults to one reading ANTHROPIC_API_KEY
+ * @property betas - Beta headers sent with each request. The computer use beta matching the
+ * request's tools is added unless one is given here.
+ */
+export interface AnthropicProviderOptions {
+  model?: string;
+  client?: Anthropic;
+  betas?: AnthropicBeta[];
+}
+
+/**
+ * Model provider backed by Anthropic's beta Messages API with computer use
+ */
+export class AnthropicProvider implements ModelProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+  private client: Anthropic;
+  private betas: AnthropicBeta[];
+
+  /**
+   * Creates a new AnthropicProvider instance
+   * @param {AnthropicProviderOptions} options - Configuration options for the provider
+   */
+  constructor(options: AnthropicProviderOptions = {}) {
+    this.model = options.model ?? defaultSamplingOptions.model;
+    this.client = options.client ?? new Anthropic();
+    this.betas = options.betas ?? [];
+  }
+
+  public async createMessage(request: ModelRequest): Promise<ModelResponse> {
+    const response = await this.client.beta.messages.create(
+      { ...this.toParams(request), stream: false },
+      { signal: request.signal }
+    );
+
+    return toModelResponse(
+      response.content,
+      response.stop_reason,
+      toModelUsage(response.usage)
+    );
+  }
+
+  /**
+   * Streams the reply, surfacing text deltas and each tool call as soon as its input JSON is
+   * complete. Tool calls whose input is cut off (e.g. by max_tokens) are dropped from the reply.
+   * @param {ModelRequest} request - Conversation, tools and sampling parameters
+   * @param {ModelStreamHandlers} handlers - Callbacks for text deltas and completed tool calls
+   * @throws {StreamInterruptedError} If the stream fails or ends before message_stop
+   */
+  public async streamMessage(
+    request: ModelRequest,
+    handlers: ModelStreamHandlers = {}
+  ): Promise<ModelResponse> {
+    const stream = await this.client.beta.messages.create(
+      { ...this.toParams(request), stream: true },
+      { signal: request.signal }
+    );
+
+    const content: BetaContentBlockParam[] = [];
+    const blocks = new Map<number, StreamingBlock>();
+    const usage: ModelUsage = { input_tokens: 0, output_tokens: 0 };
+    let stopReason: ModelStopReason = null;
+    let complete = false;
+
+    try {
+      for await (const event of stream) {
+        switch (event.type) {
+          case 'message_start':
+            Object.assign(usage, toModelUsage(event.message.usage));
+            break;
+          case 'content_block_start':
+            blocks.set(
+              event.index,
+              event.content_block.type === 'text'
+                ? { type: 'text', text: event.content_block.text }
+                : {
+                    type: 'tool_use',
+                    id: event.content_block.id,
+                    name: event.content_block.name,
+                    json: '',
+                  }
+            );
+            break;
+          case 'content_block_delta': {
+            const block = blocks.get(event.index);
+            if (block?.type === 'text' && event.delta.type === 'text_delta') {
+              block.text += event.delta.text;
+              handlers.onTextDelta?.(event.delta.text);
+            } else if (
+              block?.type === 'tool_use' &&
+              event.delta.type === 'input_json_delta'
+            ) {
+              block.json += event.delta.partial_json;
+            }
+            break;
+          }
+          case 'content_block_stop': {
+            const block = blocks.get(event.index);
+            blocks.delete(event.index);
+            if (block?.type === 'text') {
+              content.push({ type: 'text', text: block.text });
+            } else if (block?.type === 'tool_use') {
+              const input = parseToolInput(block.json);
+              if (!input) {
+                logger.warn(
+                  { id: block.id, name: block.name },
+                  'Dropping tool call with incomplete input'
+                );
+                break;
+              }
+              const toolCall = { id: block.id, name: block.name, input };
+              content.push({ type: 'tool_use', ...toolCall });
+              handlers.onToolCall?.(toolCall);
+            }
+            break;
+          }
+          case 'message_delta':
+            stopReason = event.delta.stop_reason;
+            usage.output_tokens = event.usage.output_tokens;
+            break;
+          case 'message_stop':
+            complete = true;
+            break;
+        }
+      }
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      throw new StreamInterruptedError(
+        this.name,
+        error instanceof Error ? error.message : String(error),
+        toModelResponse(content, null, usage)
+      );
+    }
+
+    if (!complete) {
+      throw new StreamInterruptedError(
+        this.name,
+        'stream ended before message_stop',
+        toModelResponse(content, null, usage)
+      );
+    }
+    return toModelResponse(content, stopReason, usage);
+  }
+
+  /**
+   * Chooses the beta headers of a request: the configured ones, the computer use beta for
+   * the version of the request's tools, and prompt caching when enabled
+   * @private
+   */
+  private betasFor(request: ModelRequest): AnthropicBeta[] {
+    const betas = [...this.betas];
+    const toolBeta = computerUseBeta(request.tools);
+    if (toolBeta && !betas.some((beta) => beta.startsWith('computer-use-'))) {
+      betas.push(toolBeta);
+    }
+    if (request.promptCaching && !betas.includes('prompt-caching-2024-07-31')) {
+      betas.push('prompt-caching-2024-07-31');
+    }
+    return betas;
+  }
+
+  /**
+   * Builds the Messages API parameters shared by createMessage and streamMessage. With
+   * prompt caching, the system prompt, the tool definitions and the most recent user
+   * messages are marked as cache breakpoints.
+   * @private
+   */
+  private toParams(
+    request: ModelRequest
+  ): Omit<MessageCreateParamsNonStreaming, 'stream'> {
+    if (!request.promptCaching) {
+      return {
+        model: this.model,
+        messages: request.messages,
+        system: [{ type: 'text', text: request.system }],
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        // Tool versions newer than the installed SDK are sent as they are
+        tools: request.tools as BetaToolUnion[],
+        betas: this.betasFor(request),
+      };
+    }
+
+    // A breakpoint on the last tool caches every tool definition before it
+    const cacheControl = { type: 'ephemeral' } as const;
+    const tools = request.tools.map((tool, index) =>
+      index === request.tools.length - 1
+        ? { ...tool, cache_control: cacheControl }
+        : tool
+    ) as BetaToolUnion[];
+    return {
+      model: this.model,
+      messages: withCacheBreakpoints(
+        request.messages,
+        MESSAGE_CACHE_BREAKPOINTS
+      ),
+      system: [
+        { type: 'text', text: request.system, cache_control: cacheControl },
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      tools,
+      betas: this.betasFor(request),
+    };
+  }
+}
+
+/**
+ * Returns a copy of the conversation with the last content block of the most recent user
+ * messages marked as a cache breakpoint, so each request reads the prefix cached by the
+ * previous one and writes a longer one
+ * @param {BetaMessageParam[]} messages - Conversation to mark
+ * @param {number} count - Number of user messages to mark
+ */
+export function withCacheBreakpoints(
+  messages: BetaMessageParam[],
+  count: number
+): BetaMessageParam[] {
+  let remaining = count;
+  return messages
+    .slice()
+    .reverse()
+    .map((message) => {
+      if (message.role !== 'user' || remaining <= 0) return message;
+      remaining--;
+      const content: BetaContentBlockParam[] =
+        typeof message.content === 'string'
+          ? [{ type: 'text', text: message.content }]
+          : [...message.content];
+      const last = content[content.length - 1];
+      if (last) {
+        content[content.length - 1] = {
+          ...last,
+          cache_control: { type: 'ephemeral' },
+        } as BetaContentBlockParam;
+      }
+      return { ...message, content };
+    })
+    .reverse();
+}
+
+/**
+ * Converts the API's usage into ModelUsage, keeping prompt cache counts when present
+ * @private
+ */
+function toModelUsage(usage: BetaUsage): ModelUsage {
+  return {
+    input_tokens: usage.input_tokens,
+    output_tokens: usage.output_tokens,
+    ...(usage.cache_creation_input_tokens
+      ? { cache_creation_input_tokens: usage.cache_creation_input_tokens }
+      : {}),
+    ...(usage.cache_read_input_tokens
+      ? { cache_read_input_tokens: usage.cache_read_input_tokens }
+      : {}),
+  };
+}
+
+/**
+ * Parses the accumulated input JSON of a tool_use block
+ * @param {string} json - Concatenated input_json_delta fragments
+ * @returns The parsed input, or null if the JSON is incomplete or not an object
+ */
+function parseToolInput(json: string): Record<string, unknown> | null {
+  try {
+    const input = JSON.parse(json || '{}');
+    return typeof input === 'object' && input !== null && !Array.isArray(input)
+      ? input
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds a ModelResponse from assistant content blocks
+ * @private
+ */
+function toModelResponse(
+  content: BetaContentBlockParam[],
+  stopReason: ModelStopReason,
+  usage: ModelUsage
+): ModelResponse {
+  const toolCalls: ToolCall[] = [];
+  const text: string[] = [];
+  for (const block of content) {
+    if (block.type === 'text') {
+      text.push(block.text);
+    } else if (block.type === 'tool_use') {
+      toolCalls.push({
+        id: block.id,
+        name: block.name,
+        input: block.input as Record<string, unknown>,
+      });
+    }
+  }
+
+  return { text: text.join('\n'), toolCalls, content, stopReason, usage };
+}
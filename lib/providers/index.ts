@@ -0,0 +1,49 @@
+import { AnthropicProvider, type AnthropicProviderOptions } from './anthropic';
+import { OpenAIProvider, type OpenAIProviderOptions } from './openai';
+import type {
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  ModelStopReason,
+  ModelStreamHandlers,
+  ModelUsage,
+  ToolCall,
+} from './types';
+
+/**
+ * Names of the built-in model providers
+ */
+export type ProviderName = 'anthropic' | 'openai';
+
+/**
+ * Returns the given provider, or creates a built-in provider by name
+ * @param {ProviderName | ModelProvider} provider - Provider instance or built-in provider name
+ * @param {string} model - Optional model override for built-in providers
+ * @returns {ModelProvider} The model provider
+ */
+export function resolveProvider(
+  provider: ProviderName | ModelProvider,
+  model?: string
+): ModelProvider {
+  if (typeof provider !== 'string') return provider;
+  switch (provider) {
+    case 'anthropic':
+      return new AnthropicProvider({ model });
+    case 'openai':
+      return new OpenAIProvider({ model });
+  }
+}
+
+export {
+  AnthropicProvider,
+  OpenAIProvider,
+  type AnthropicProviderOptions,
+  type OpenAIProviderOptions,
+  type ModelProvider,
+  type ModelRequest,
+  type ModelResponse,
+  type ModelStopReason,
+  type ModelStreamHandlers,
+  type ModelUsage,
+  type ToolCall,
+};
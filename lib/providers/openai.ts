@@ -0,0 +1,458 @@
+import type {
+  BetaContentBlockParam,
+  BetaMessageParam,
+} from '@anthropic-ai/sdk/resources/beta/index.mjs';
+import type { ToolDefinition } from '../tools';
+import { ProviderError } from '../errors';
+import type {
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  ModelStopReason,
+  ToolCall,
+} from './types';
+
+/**
+ * Configuration options for the OpenAIProvider
+ * @property model - Model to use, defaults to gpt-4o
+ * @property apiKey - API key, defaults to the OPENAI_API_KEY env var
+ * @property baseUrl - Base URL of any OpenAI-compatible API, defaults to the OPENAI_BASE_URL env var or https://api.openai.com/v1
+ * @property headers - Extra headers sent with each request
+ */
+export interface OpenAIProviderOptions {
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  headers?: Record<string, string>;
+}
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAIMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | OpenAIContentPart[] }
+  | {
+      role: 'assistant';
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAIFunctionTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+interface OpenAIChatCompletion {
+  choices: {
+    message: {
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    };
+    finish_reason: string | null;
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  };
+}
+
+/**
+ * Model provider for any OpenAI-compatible chat completions API. Anthropic's computer use
+ * tools are mapped to equivalent function-calling schemas.
+ */
+export class OpenAIProvider implements ModelProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private apiKey: string;
+  private baseUrl: string;
+  private headers: Record<string, string>;
+
+  /**
+   * Creates a new OpenAIProvider instance
+   * @param {OpenAIProviderOptions} options - Configuration options for the provider
+   */
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.model = options.model ?? 'gpt-4o';
+    this.apiKey = options.apiKey ?? process.env.OPENAI_API_KEY ?? '';
+    this.baseUrl = (
+      options.baseUrl ??
+      process.env.OPENAI_BASE_URL ??
+      'https://api.openai.com/v1'
+    ).replace(/\/$/, '');
+    this.headers = options.headers ?? {};
+  }
+
+  public async createMessage(request: ModelRequest): Promise<ModelResponse> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+        ...this.headers,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: toOpenAIMessages(request.system, request.messages),
+        tools: request.tools.map(toOpenAITool),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw new ProviderError(
+        this.name,
+        response.status,
+        await response.text()
+      );
+    }
+
+    const completion = (await response.json()) as OpenAIChatCompletion;
+    const choice = completion.choices[0];
+    // OpenAI caches prompts automatically and counts cached tokens as part of the prompt
+    const cachedTokens =
+      completion.usage?.prompt_tokens_details?.cached_tokens ?? 0;
+    const text = choice?.message.content ?? '';
+    const toolCalls: ToolCall[] = (choice?.message.tool_calls ?? []).map(
+      (toolCall) => ({
+        id: toolCall.id,
+        name: toolCall.function.name,
+        input: parseArguments(toolCall.function.arguments),
+      })
+    );
+
+    const content: BetaContentBlockParam[] = [];
+    if (text) {
+      content.push({ type: 'text', text });
+    }
+    toolCalls.forEach((toolCall) =>
+      content.push({ type: 'tool_use', ...toolCall })
+    );
+
+    return {
+      text,
+      toolCalls,
+      content,
+      stopReason: toStopReason(choice?.finish_reason ?? null),
+      usage: {
+        input_tokens: (completion.usage?.prompt_tokens ?? 0) - cachedTokens,
+        output_tokens: completion.usage?.completion_tokens ?? 0,
+        ...(cachedTokens > 0 ? { cache_read_input_tokens: cachedTokens } : {}),
+      },
+    };
+  }
+}
+
+/**
+ * Parses function-call arguments, falling back to an empty object for malformed JSON
+ * @param {string} args - JSON-encoded arguments
+ */
+function parseArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Maps an OpenAI finish_reason to the equivalent Anthropic stop reason
+ * @param {string | null} finishReason - OpenAI finish reason
+ */
+function toStopReason(finishReason: string | null): ModelStopReason {
+  switch (finishReason) {
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool_use';
+    case 'length':
+      return 'max_tokens';
+    case 'stop':
+      return 'end_turn';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Converts an Anthropic tool definition into an OpenAI function tool. Built-in computer use
+ * tools are described with explicit JSON schemas; custom (MCP) tools keep their input schema.
+ * @param {ToolDefinition} tool - Tool definition
+ */
+export function toOpenAITool(tool: ToolDefinition): OpenAIFunctionTool {
+  if ('input_schema' in tool) {
+    return {
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.input_schema,
+      },
+    };
+  }
+
+  switch (tool.type) {
+    case 'bash_20241022':
+    case 'bash_20250124':
+      return {
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: 'Run a bash command on the remote machine.',
+          parameters: {
+            type: 'object',
+            properties: {
+              command: { type: 'string', description: 'Command to run' },
+            },
+            required: ['command'],
+          },
+        },
+      };
+    case 'computer_20241022':
+      return {
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: `Control the mouse and keyboard and take screenshots of a ${tool.display_width_px}x${tool.display_height_px} display.`,
+          parameters: {
+            type: 'object',
+            properties: {
+              action: {
+                type: 'string',
+                enum: [
+                  'key',
+                  'type',
+                  'mouse_move',
+                  'left_click',
+                  'left_click_drag',
+                  'right_click',
+                  'middle_click',
+                  'double_click',
+                  'screenshot',
+                  'cursor_position',
+                ],
+              },
+              coordinate: {
+                type: 'array',
+                items: { type: 'integer' },
+                minItems: 2,
+                maxItems: 2,
+                description:
+                  '[x, y] pixel coordinate for mouse_move and left_click_drag',
+              },
+              text: {
+                type: 'string',
+                description: 'Text to type, or key combination to press',
+              },
+            },
+            required: ['action'],
+          },
+        },
+      };
+    case 'computer_20250124':
+      return {
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: `Control the mouse and keyboard and take screenshots of a ${tool.display_width_px}x${tool.display_height_px} display.`,
+          parameters: {
+            type: 'object',
+            properties: {
+              action: {
+                type: 'string',
+                enum: [
+                  'key',
+                  'hold_key',
+                  'type',
+                  'mouse_move',
+                  'left_click',
+                  'left_click_drag',
+                  'left_mouse_down',
+                  'left_mouse_up',
+                  'right_click',
+                  'middle_click',
+                  'double_click',
+                  'triple_click',
+                  'scroll',
+                  'wait',
+                  'screenshot',
+                  'cursor_position',
+                ],
+              },
+              coordinate: {
+                type: 'array',
+                items: { type: 'integer' },
+                minItems: 2,
+                maxItems: 2,
+                description:
+                  '[x, y] pixel coordinate for mouse_move, clicks, scroll and the end of left_click_drag',
+              },
+              start_coordinate: {
+                type: 'array',
+                items: { type: 'integer' },
+                minItems: 2,
+                maxItems: 2,
+                description:
+                  '[x, y] pixel coordinate where left_click_drag starts',
+              },
+              text: {
+                type: 'string',
+                description:
+                  'Text to type, key combination to press, or modifier keys to hold while clicking or scrolling',
+              },
+              scroll_direction: {
+                type: 'string',
+                enum: ['up', 'down', 'left', 'right'],
+              },
+              scroll_amount: {
+                type: 'integer',
+                description: 'Number of scroll wheel clicks',
+              },
+              duration: {
+                type: 'number',
+                description: 'Seconds to hold the key or to wait',
+              },
+            },
+            required: ['action'],
+          },
+        },
+      };
+    case 'text_editor_20241022':
+    case 'text_editor_20250124':
+      return {
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: 'View, create and edit files on the remote machine.',
+          parameters: {
+            type: 'object',
+            properties: {
+              command: {
+                type: 'string',
+                enum: ['view', 'create', 'str_replace', 'insert', 'undo_edit'],
+              },
+              path: { type: 'string', description: 'Absolute file path' },
+              file_text: { type: 'string' },
+              old_str: { type: 'string' },
+              new_str: { type: 'string' },
+              insert_line: { type: 'integer' },
+              view_range: {
+                type: 'array',
+                items: { type: 'integer' },
+              },
+            },
+            required: ['command', 'path'],
+          },
+        },
+      };
+  }
+}
+
+/**
+ * Converts an Anthropic-format conversation into OpenAI chat messages. Tool results become
+ * 'tool' messages; images they contain are forwarded in a following user message, since
+ * tool messages cannot carry images.
+ * @param {string} system - System prompt
+ * @param {BetaMessageParam[]} messages - Anthropic-format conversation
+ */
+export function toOpenAIMessages(
+  system: string,
+  messages: BetaMessageParam[]
+): OpenAIMessage[] {
+  const result: OpenAIMessage[] = [];
+  if (system) {
+    result.push({ role: 'system', content: system });
+  }
+
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      result.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    if (message.role === 'assistant') {
+      const text = message.content
+        .filter((block) => block.type === 'text')
+        .map((block) => block.text)
+        .join('\n');
+      const toolCalls: OpenAIToolCall[] = message.content
+        .filter((block) => block.type === 'tool_use')
+        .map((block) => ({
+          id: block.id,
+          type: 'function',
+          function: {
+            name: block.name,
+            arguments: JSON.stringify(block.input),
+          },
+        }));
+      result.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    const userParts: OpenAIContentPart[] = [];
+    for (const block of message.content) {
+      if (block.type === 'text') {
+        userParts.push({ type: 'text', text: block.text });
+      } else if (block.type === 'image' && block.source.type === 'base64') {
+        userParts.push(toImagePart(block.source.media_type, block.source.data));
+      } else if (block.type === 'tool_result') {
+        const content =
+          typeof block.content === 'string' ? [] : (block.content ?? []);
+        const text =
+          typeof block.content === 'string'
+            ? block.content
+            : content
+                .filter((part) => part.type === 'text')
+                .map((part) => part.text)
+                .join('\n');
+        result.push({
+          role: 'tool',
+          tool_call_id: block.tool_use_id,
+          content: block.is_error ? `Error: ${text}` : text || '(no output)',
+        });
+        content.forEach((part) => {
+          if (part.type === 'image' && part.source.type === 'base64') {
+            userParts.push(
+              toImagePart(part.source.media_type, part.source.data)
+            );
+          }
+        });
+      }
+    }
+    if (userParts.length > 0) {
+      result.push({ role: 'user', content: userParts });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Builds an image content part from base64 data
+ * @private
+ */
+function toImagePart(mediaType: string, data: string): OpenAIContentPart {
+  return {
+    type: 'image_url',
+    image_url: { url: `data:${mediaType};base64,${data}` },
+  };
+}
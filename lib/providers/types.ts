@@ -0,0 +1,106 @@
+import type {
+  BetaContentBlockParam,
+  BetaMessageParam,
+} from '@anthropic-ai/sdk/resources/beta/index.mjs';
+import type { ToolDefinition } from '../tools';
+
+/**
+ * A tool invocation requested by the model
+ * @property id - Provider-assigned ID, echoed back in the tool result
+ * @property name - Name of the tool to invoke
+ * @property input - Arguments for the tool
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * Token usage reported for a single model request. input_tokens excludes tokens read from
+ * or written to the prompt cache.
+ */
+export interface ModelUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+/**
+ * Why the model stopped generating, normalized to Anthropic's stop reasons
+ */
+export type ModelStopReason =
+  | 'end_turn'
+  | 'max_tokens'
+  | 'stop_sequence'
+  | 'tool_use'
+  | null;
+
+/**
+ * A single request to a model provider. The conversation and tools use Anthropic's
+ * message format; providers for other APIs convert them.
+ * @property system - System prompt
+ * @property messages - Conversation so far
+ * @property tools - Tools the model may call, both computer use and MCP
+ * @property maxTokens - Maximum tokens to generate
+ * @property temperature - Sampling temperature
+ * @property signal - Aborts the request
+ * @property promptCaching - Mark the system prompt, tools and recent history as cacheable, for
+ * providers that support prompt caching
+ */
+export interface ModelRequest {
+  system: string;
+  messages: BetaMessageParam[];
+  tools: ToolDefinition[];
+  maxTokens: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  promptCaching?: boolean;
+}
+
+/**
+ * A model's reply to a ModelRequest
+ * @property text - Concatenated assistant text
+ * @property toolCalls - Tools the model asked to invoke, in order
+ * @property content - Assistant content blocks to append to the conversation
+ * @property stopReason - Why the model stopped generating
+ * @property usage - Token usage for this request
+ */
+export interface ModelResponse {
+  text: string;
+  toolCalls: ToolCall[];
+  content: BetaContentBlockParam[];
+  stopReason: ModelStopReason;
+  usage: ModelUsage;
+}
+
+/**
+ * Callbacks a provider invokes while streaming a reply
+ * @property onTextDelta - Called with each chunk of assistant text as it arrives
+ * @property onToolCall - Called as soon as a tool call's input is complete, before the reply ends
+ */
+export interface ModelStreamHandlers {
+  onTextDelta?: (delta: string) => void;
+  onToolCall?: (toolCall: ToolCall) => void;
+}
+
+/**
+ * A model backend that can drive the computer use agent loop
+ */
+export interface ModelProvider {
+  /** Human-readable provider name, used for logging */
+  readonly name: string;
+  /** Model identifier sent to the provider */
+  readonly model: string;
+  /** Sends the conversation and tool definitions to the model and returns its reply */
+  createMessage(request: ModelRequest): Promise<ModelResponse>;
+  /**
+   * Optional streaming variant of createMessage. Resolves with the full reply once the
+   * stream ends, and rejects with a StreamInterruptedError if it ends early.
+   */
+  streamMessage?(
+    request: ModelRequest,
+    handlers: ModelStreamHandlers
+  ): Promise<ModelResponse>;
+}
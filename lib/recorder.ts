@@ -0,0 +1,589 @@
+// recording of screenshots and actions of a computer, exported as animations and reports
+import fs from 'fs/promises';
+import path from 'path';
+import type { CommandCompletedEvent, Computer } from './computer';
+import { ProtocolError } from './errors';
+import type { Action } from './schemas/action';
+import { withoutExitStatus } from './shell';
+import type { ToolResult } from './types';
+import { createModuleLogger } from './utils/logger';
+import {
+  decodePng,
+  encodeApng,
+  encodePng,
+  resizeImage,
+  type AnimationFrame,
+  type RgbaImage,
+} from './utils/png';
+import {
+  TEXT_HEIGHT,
+  drawRing,
+  drawText,
+  fillRect,
+  measureText,
+} from './utils/draw';
+
+const logger = createModuleLogger('SessionRecorder');
+
+/**
+ * Options for Computer.record()
+ * @property actions - Capture a frame after every command; defaults to true
+ * @property screenshotTools - Tools after whose commands the recorder takes a screenshot when
+ *   the command did not return one. Commands of other tools, such as bash and the editor,
+ *   reuse the previous frame's screenshot. Defaults to ['computer'].
+ * @property intervalMs - Also capture a frame at this interval while the computer is
+ *   connected, for a timelapse of the screen
+ * @property maxFrames - Most frames kept; later captures are dropped. Frames are held in
+ *   memory as PNGs, so 1000 full-screen frames can take a few hundred megabytes; lower it
+ *   for long sessions. Defaults to 1000.
+ */
+export interface RecorderOptions {
+  actions?: boolean;
+  screenshotTools?: string[];
+  intervalMs?: number;
+  maxFrames?: number;
+}
+
+/**
+ * Where the mouse was during a frame
+ * @property x - Horizontal position in screen pixels
+ * @property y - Vertical position in screen pixels
+ * @property click - Whether the action clicked or dragged there
+ */
+export interface PointerMarker {
+  x: number;
+  y: number;
+  click: boolean;
+}
+
+/**
+ * A captured screenshot and the command that led to it
+ * @property timestamp - When the command completed, or when the interval capture started
+ * @property png - Screenshot as PNG
+ * @property action - Command sent to the computer, or null for interval captures
+ * @property result - Text output of the command, or null for interval captures
+ * @property marker - Mouse position touched by the command, if any
+ */
+export interface RecordedFrame {
+  timestamp: number;
+  png: Buffer;
+  action: Action | null;
+  result: Pick<ToolResult, 'output' | 'error'> | null;
+  marker: PointerMarker | null;
+}
+
+/**
+ * Options for rendering recorded frames
+ * @property width - Width of the rendered frames; the height keeps the aspect ratio of the
+ *   first frame. Defaults to the width of the first frame.
+ * @property captions - Draw a caption describing the action at the bottom of each frame;
+ *   defaults to true
+ * @property markers - Draw a ring where the mouse moved or clicked; defaults to true
+ */
+export interface RenderOptions {
+  width?: number;
+  captions?: boolean;
+  markers?: boolean;
+}
+
+/**
+ * Options for SessionRecorder.toApng() and SessionRecorder.exportFrames()
+ * @property delayMs - How long each frame is shown, or 'realtime' to show each frame until
+ *   the next one was captured. Defaults to 500.
+ */
+export interface AnimationOptions extends RenderOptions {
+  delayMs?: number | 'realtime';
+}
+
+/**
+ * Options for SessionRecorder.toHtml()
+ * @property title - Title of the report
+ */
+export interface ReportOptions extends Omit<RenderOptions, 'captions'> {
+  title?: string;
+}
+
+// How long the last frame is shown by realtime animations
+const LAST_FRAME_MS = 1000;
+const CLICK_COLOR: [number, number, number, number] = [255, 48, 48, 230];
+const MOVE_COLOR: [number, number, number, number] = [48, 144, 255, 230];
+const CAPTION_BACKGROUND: [number, number, number, number] = [0, 0, 0, 180];
+const CAPTION_COLOR: [number, number, number, number] = [255, 255, 255, 255];
+
+/**
+ * Short description of an action, used as the caption of its frame
+ * @param {Action} action - Action to describe
+ * @returns {string} e.g. 'left_click (100, 200)', 'type "hello"' or '$ ls -la'
+ */
+export function describeAction(action: Action): string {
+  const params = action.params as Record<string, unknown>;
+  if (action.tool === 'bash') {
+    const command = withoutExitStatus(String(params.command ?? ''));
+    return `$ ${command.trim().replace(/\s+/g, ' ')}`;
+  }
+  if (action.tool === 'str_replace_editor') {
+    return `${params.command} ${params.path}`;
+  }
+  const name = String(params.action);
+  if (name === 'type') {
+    return `type ${JSON.stringify(params.text)}`;
+  }
+  const coordinate = params.coordinate as [number, number] | undefined;
+  return [name, params.text, coordinate && `(${coordinate.join(', ')})`]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Mouse position an action moves to, and whether it clicks there
+ * @private
+ */
+function pointerOf(
+  action: Action,
+  cursor: { x: number; y: number } | null
+): PointerMarker | null {
+  if (action.tool !== 'computer') return null;
+  const params = action.params as Record<string, unknown>;
+  const name = String(params.action);
+  const coordinate = params.coordinate as [number, number] | undefined;
+  const position = coordinate ? { x: coordinate[0], y: coordinate[1] } : cursor;
+  if (!position) return null;
+  if (name.endsWith('_click') || name === 'left_click_drag') {
+    return { ...position, click: true };
+  }
+  if (coordinate) {
+    return { ...position, click: false };
+  }
+  return null;
+}
+
+/**
+ * Shortens text to fit a width, ending it with '...' if it had to be cut
+ * @private
+ */
+function fitText(text: string, width: number, scale: number): string {
+  const line = text.replace(/\s+/g, ' ');
+  if (measureText(line, scale) <= width) return line;
+  let end = line.length;
+  while (end > 0 && measureText(`${line.slice(0, end)}...`, scale) > width) {
+    end--;
+  }
+  return `${line.slice(0, end)}...`;
+}
+
+/**
+ * Escapes text for HTML
+ * @private
+ */
+function escapeHtml(text: string): string {
+  return text.replace(
+    /[&<>"']/g,
+    (character) => `&#${character.charCodeAt(0)};`
+  );
+}
+
+/**
+ * Records screenshots of a computer after every command it executes, and optionally at an
+ * interval, and exports them as an animated PNG, as numbered frames for video encoders or
+ * as an HTML report. Commands sent by agents, sessions and the helpers of the Computer are
+ * all recorded, because frames are captured when the Computer reports a completed command.
+ * Screenshots returned by the command itself are used instead of taking a new one, and
+ * commands that rarely change the screen, such as bash, reuse the previous screenshot.
+ *
+ * @example
+ * const recorder = computer.record({ intervalMs: 2000 });
+ * await computer.do('Open the settings and enable dark mode');
+ * await recorder.stop();
+ * fs.writeFileSync('run.png', recorder.toApng({ width: 800 }));
+ * fs.writeFileSync('run.html', recorder.toHtml({ title: 'Dark mode' }));
+ */
+export class SessionRecorder {
+  readonly computer: Computer;
+  private options: Required<Omit<RecorderOptions, 'intervalMs'>> &
+    Pick<RecorderOptions, 'intervalMs'>;
+  private recorded: RecordedFrame[] = [];
+  /** Screenshots taken by the recorder, which are not recorded as actions themselves */
+  private ownCommands = new WeakSet<Action>();
+  /** Captures run one at a time, in the order they were requested */
+  private captures: Promise<void> = Promise.resolve();
+  private pendingCaptures = 0;
+  private started = false;
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private cursor: { x: number; y: number } | null = null;
+  private onCommand = (event: CommandCompletedEvent) =>
+    this.recordCommand(event);
+  // Interval captures pause while the computer is disconnected, so that they do not reconnect it
+  private onConnected = () => this.startInterval();
+  private onClose = () => this.stopInterval();
+
+  /**
+   * Creates a new SessionRecorder instance; call start() to begin recording
+   * @param {Computer} computer - Computer to record
+   * @param {RecorderOptions} options - When to capture frames
+   */
+  constructor(computer: Computer, options: RecorderOptions = {}) {
+    this.computer = computer;
+    this.options = {
+      actions: true,
+      screenshotTools: ['computer'],
+      maxFrames: 1000,
+      ...options,
+    };
+  }
+
+  /**
+   * Frames recorded so far, oldest first
+   */
+  get frames(): readonly RecordedFrame[] {
+    return this.recorded;
+  }
+
+  /**
+   * Whether the recorder is capturing frames
+   */
+  get recording(): boolean {
+    return this.started;
+  }
+
+  /**
+   * Starts capturing frames. Does nothing if the recorder is already recording.
+   */
+  public start() {
+    if (this.started) return;
+    this.started = true;
+    if (this.options.actions) {
+      this.computer.on('command-completed', this.onCommand);
+    }
+    if (this.options.intervalMs !== undefined) {
+      this.computer.on('connected', this.onConnected);
+      this.computer.on('close', this.onClose);
+      if (this.computer.isConnected()) this.startInterval();
+    }
+  }
+
+  /**
+   * Stops capturing frames and waits for captures in progress
+   * @returns {Promise<void>} Resolves once every frame has been recorded
+   */
+  public async stop(): Promise<void> {
+    this.started = false;
+    this.computer.removeListener('command-completed', this.onCommand);
+    this.computer.removeListener('connected', this.onConnected);
+    this.computer.removeListener('close', this.onClose);
+    this.stopInterval();
+    await this.captures;
+  }
+
+  /**
+   * Starts capturing frames at the interval, unless it is already running
+   * @private
+   */
+  private startInterval() {
+    if (this.interval || this.options.intervalMs === undefined) return;
+    this.interval = setInterval(() => {
+      // Skip a tick rather than letting captures pile up behind a slow screenshot
+      if (this.pendingCaptures === 0 && this.computer.isConnected()) {
+        this.capture(Date.now(), null, null, null);
+      }
+    }, this.options.intervalMs);
+  }
+
+  /**
+   * Stops capturing frames at the interval
+   * @private
+   */
+  private stopInterval() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Captures a frame for a command completed by the computer
+   * @private
+   */
+  private recordCommand({ command, message }: CommandCompletedEvent) {
+    if (this.ownCommands.has(command)) return;
+    const marker = pointerOf(command, this.cursor);
+    if (marker) {
+      this.cursor = { x: marker.x, y: marker.y };
+    }
+    const { output, error, base64_image } = message.tool_result;
+    this.capture(
+      Date.now(),
+      command,
+      { output, error },
+      marker,
+      base64_image,
+      !this.options.screenshotTools.includes(command.tool)
+    );
+  }
+
+  /**
+   * Queues the capture of a frame, taking a screenshot unless one is given or the previous
+   * frame's screenshot may be reused
+   * @private
+   */
+  private capture(
+    timestamp: number,
+    action: Action | null,
+    result: RecordedFrame['result'],
+    marker: PointerMarker | null,
+    base64Image?: string | null,
+    reusePrevious = false
+  ) {
+    this.pendingCaptures++;
+    this.captures = this.captures
+      .then(async () => {
+        if (this.recorded.length >= this.options.maxFrames) return;
+        const previous = reusePrevious ? this.recorded.at(-1)?.png : undefined;
+        const png = base64Image
+          ? Buffer.from(base64Image, 'base64')
+          : (previous ?? Buffer.from(await this.takeScreenshot(), 'base64'));
+        this.recorded.push({ timestamp, png, action, result, marker });
+      })
+      .catch((error) => {
+        logger.warn({ error, action }, 'Could not capture frame:');
+      })
+      .finally(() => {
+        this.pendingCaptures--;
+      });
+  }
+
+  /**
+   * Takes a screenshot that is not recorded as an action
+   * @private
+   */
+  private async takeScreenshot(): Promise<string> {
+    const command: Action = {
+      tool: 'computer',
+      params: { action: 'screenshot' },
+    };
+    this.ownCommands.add(command);
+    const message = await this.computer.execute(command);
+    if (!message.tool_result.base64_image) {
+      throw new ProtocolError('No screenshot data received');
+    }
+    return message.tool_result.base64_image;
+  }
+
+  /**
+   * Size every frame is rendered at
+   * @private
+   */
+  private frameSize(
+    width: number | undefined,
+    even: boolean
+  ): { width: number; height: number } {
+    const first = decodePng(this.recorded[0].png);
+    const targetWidth = width ?? first.width;
+    const targetHeight = Math.max(
+      1,
+      Math.round((first.height * targetWidth) / first.width)
+    );
+    // Most video encoders need even dimensions for yuv420p
+    return even
+      ? {
+          width: Math.max(2, targetWidth - (targetWidth % 2)),
+          height: Math.max(2, targetHeight - (targetHeight % 2)),
+        }
+      : { width: targetWidth, height: targetHeight };
+  }
+
+  /**
+   * Decodes a frame, resizes it and draws its overlays
+   * @private
+   */
+  private renderFrame(
+    frame: RecordedFrame,
+    size: { width: number; height: number },
+    { captions = true, markers = true }: RenderOptions
+  ): RgbaImage {
+    const source = decodePng(frame.png);
+    const image = resizeImage(source, size.width, size.height);
+    // resizeImage returns the source itself when the size already matches
+    if (image === source) image.data = new Uint8Array(source.data);
+
+    if (markers && frame.marker) {
+      const radius = Math.max(6, Math.round(image.width / 100));
+      drawRing(
+        image,
+        Math.round((frame.marker.x * image.width) / source.width),
+        Math.round((frame.marker.y * image.height) / source.height),
+        radius,
+        Math.max(2, Math.round(radius / 3)),
+        frame.marker.click ? CLICK_COLOR : MOVE_COLOR
+      );
+    }
+
+    if (captions && frame.action) {
+      const scale = Math.max(1, Math.round(image.width / 640));
+      const padding = 4 * scale;
+      const barHeight = TEXT_HEIGHT * scale + padding * 2;
+      const text = fitText(
+        describeAction(frame.action),
+        image.width - padding * 2,
+        scale
+      );
+      fillRect(
+        image,
+        0,
+        image.height - barHeight,
+        image.width,
+        barHeight,
+        CAPTION_BACKGROUND
+      );
+      drawText(
+        image,
+        text,
+        padding,
+        image.height - barHeight + padding,
+        CAPTION_COLOR,
+        scale
+      );
+    }
+    return image;
+  }
+
+  /**
+   * Frames rendered for an animation, one at a time
+   * @private
+   */
+  private *animationFrames(
+    options: AnimationOptions,
+    even: boolean
+  ): Generator<AnimationFrame> {
+    const { delayMs = 500 } = options;
+    const size = this.frameSize(options.width, even);
+    for (const [index, frame] of this.recorded.entries()) {
+      const next = this.recorded[index + 1];
+      yield {
+        image: this.renderFrame(frame, size, options),
+        delayMs:
+          delayMs !== 'realtime'
+            ? delayMs
+            : next
+              ? Math.max(1, next.timestamp - frame.timestamp)
+              : LAST_FRAME_MS,
+      };
+    }
+  }
+
+  /**
+   * Requires at least one recorded frame
+   * @private
+   */
+  private assertFrames() {
+    if (this.recorded.length === 0) {
+      throw new TypeError('No frames have been recorded');
+    }
+  }
+
+  /**
+   * Renders the recording as an animated PNG that loops forever
+   * @param {AnimationOptions} options - Size, overlays and timing of the frames
+   * @returns {Buffer} APNG file contents
+   * @throws {TypeError} If no frames have been recorded
+   */
+  public toApng(options: AnimationOptions = {}): Buffer {
+    this.assertFrames();
+    return encodeApng(this.animationFrames(options, false));
+  }
+
+  /**
+   * Writes the recording as numbered PNG files with an ffconcat list of their durations,
+   * which ffmpeg turns into a video:
+   * `ffmpeg -f concat -i frames.ffconcat -pix_fmt yuv420p recording.mp4`.
+   * Frames get even dimensions, as required by most video encoders.
+   * @param {string} dir - Directory to write to, created if missing
+   * @param {AnimationOptions} options - Size, overlays and timing of the frames
+   * @returns {Promise<string>} Path of the ffconcat file
+   * @throws {TypeError} If no frames have been recorded
+   */
+  public async exportFrames(
+    dir: string,
+    options: AnimationOptions = {}
+  ): Promise<string> {
+    this.assertFrames();
+    await fs.mkdir(dir, { recursive: true });
+    const lines = ['ffconcat version 1.0'];
+    let file = '';
+    let index = 0;
+    for (const { image, delayMs } of this.animationFrames(options, true)) {
+      file = `frame_${String(++index).padStart(5, '0')}.png`;
+      await fs.writeFile(path.join(dir, file), encodePng(image));
+      lines.push(`file ${file}`, `duration ${delayMs / 1000}`);
+    }
+    // The concat demuxer ignores the duration of the last entry unless it is repeated
+    lines.push(`file ${file}`);
+    const list = path.join(dir, 'frames.ffconcat');
+    await fs.writeFile(list, `${lines.join('\n')}\n`);
+    return list;
+  }
+
+  /**
+   * Renders the recording as a self-contained HTML page that lists every frame with its
+   * action, output and time, with the screenshots embedded
+   * @param {ReportOptions} options - Title, size and markers of the frames
+   * @returns {string} HTML document
+   */
+  public toHtml(options: ReportOptions = {}): string {
+    const { title = 'Computer session' } = options;
+    const start = this.recorded[0]?.timestamp ?? Date.now();
+    const size = this.recorded.length
+      ? this.frameSize(options.width, false)
+      : null;
+
+    const sections = this.recorded.map((frame, index) => {
+      const image = this.renderFrame(frame, size!, {
+        ...options,
+        captions: false,
+      });
+      const seconds = ((frame.timestamp - start) / 1000).toFixed(1);
+      const caption = frame.action
+        ? describeAction(frame.action)
+        : 'Interval capture';
+      const output = [
+        frame.result?.output && `<pre>${escapeHtml(frame.result.output)}</pre>`,
+        frame.result?.error &&
+          `<pre class="error">${escapeHtml(frame.result.error)}</pre>`,
+      ];
+      return [
+        `<section id="frame-${index + 1}">`,
+        `<h2><span class="time">+${seconds}s</span> ${escapeHtml(caption)}</h2>`,
+        `<img src="data:image/png;base64,${encodePng(image).toString('base64')}" width="${image.width}" height="${image.height}" alt="${escapeHtml(caption)}">`,
+        frame.action
+          ? `<details><summary>Action</summary><pre>${escapeHtml(JSON.stringify(frame.action, null, 2))}</pre></details>`
+          : '',
+        ...output,
+        '</section>',
+      ]
+        .filter(Boolean)
+        .join('\n');
+    });
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: ${size?.width ?? 800}px; padding: 0 1rem; color: #222; }
+section { border-top: 1px solid #ddd; padding: 1rem 0; }
+h2 { font-size: 1rem; }
+.time { color: #888; font-weight: normal; }
+img { max-width: 100%; height: auto; border: 1px solid #ccc; }
+pre { background: #f5f5f5; padding: 0.5rem; overflow-x: auto; white-space: pre-wrap; }
+pre.error { background: #fdecea; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${this.recorded.length} frames recorded from ${new Date(start).toISOString()}</p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+  }
+}
@@ -0,0 +1,208 @@
+// scaling between the screen size shown to the model and the real display
+import type { Action } from './schemas/action';
+import type { ToolResult } from './types';
+import { createModuleLogger } from './utils/logger';
+import { decodePng, encodePng, resizeImage } from './utils/png';
+
+const logger = createModuleLogger('CoordinateScaler');
+
+/**
+ * Size of a screen or screenshot in pixels
+ */
+export interface ScreenSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Resolutions recommended for computer use models
+ */
+export const scalingTargets = {
+  XGA: { width: 1024, height: 768 },
+  WXGA: { width: 1280, height: 800 },
+  FWXGA: { width: 1366, height: 768 },
+} satisfies Record<string, ScreenSize>;
+
+export type ScalingTargetName = keyof typeof scalingTargets;
+
+/**
+ * How screenshots and coordinates are scaled for the model
+ * - 'auto' or true: scale to the target in scalingTargets with the screen's aspect ratio,
+ *   or to fit within WXGA when none matches; screens already that small are not scaled
+ * - false: show the model the real screen
+ * - a target name or size: scale to fit within it, keeping the aspect ratio
+ */
+export type ScalingOption = boolean | 'auto' | ScalingTargetName | ScreenSize;
+
+// Aspect ratios closer than this are considered equal
+const ASPECT_RATIO_TOLERANCE = 0.02;
+
+/**
+ * Scales a size down to fit within a box, keeping its aspect ratio
+ * @private
+ */
+function fitWithin(size: ScreenSize, box: ScreenSize): ScreenSize {
+  const factor = Math.min(1, box.width / size.width, box.height / size.height);
+  return {
+    width: Math.round(size.width * factor),
+    height: Math.round(size.height * factor),
+  };
+}
+
+/**
+ * Maps between the screen size shown to the model and the real display. Screenshots are
+ * downscaled before the model sees them, and coordinates chosen by the model are mapped
+ * back to real screen pixels, so clicks land where the model intended on any display.
+ *
+ * @example
+ * const scaler = CoordinateScaler.forScreen({ width: 2560, height: 1600 });
+ * scaler.model; // { width: 1280, height: 800 }
+ * scaler.toScreen([640, 400]); // [1280, 800]
+ */
+export class CoordinateScaler {
+  readonly screen: ScreenSize;
+  readonly model: ScreenSize;
+
+  /**
+   * Creates a new CoordinateScaler instance
+   * @param {ScreenSize} screen - Real size of the display
+   * @param {ScreenSize} model - Size of the screen as shown to the model
+   */
+  constructor(screen: ScreenSize, model: ScreenSize) {
+    this.screen = screen;
+    this.model = model;
+  }
+
+  /**
+   * Creates a scaler for a display
+   * @param {ScreenSize} screen - Real size of the display
+   * @param {ScalingOption} option - How to choose the size shown to the model
+   */
+  static forScreen(
+    screen: ScreenSize,
+    option: ScalingOption = 'auto'
+  ): CoordinateScaler {
+    if (option === false) {
+      return new CoordinateScaler(screen, screen);
+    }
+    if (option === true || option === 'auto') {
+      const ratio = screen.width / screen.height;
+      const target = Object.values(scalingTargets).find(
+        (candidate) =>
+          Math.abs(candidate.width / candidate.height - ratio) <
+            ASPECT_RATIO_TOLERANCE && candidate.width < screen.width
+      );
+      return new CoordinateScaler(
+        screen,
+        target ?? fitWithin(screen, scalingTargets.WXGA)
+      );
+    }
+    const box = typeof option === 'string' ? scalingTargets[option] : option;
+    return new CoordinateScaler(screen, fitWithin(screen, box));
+  }
+
+  /** Whether the model sees the real screen size */
+  get isIdentity(): boolean {
+    return (
+      this.screen.width === this.model.width &&
+      this.screen.height === this.model.height
+    );
+  }
+
+  /**
+   * Maps a coordinate chosen by the model to real screen pixels
+   * @param {[number, number]} coordinate - [x, y] in the model's screen
+   */
+  public toScreen([x, y]: [number, number]): [number, number] {
+    return [
+      this.map(x, this.model.width, this.screen.width),
+      this.map(y, this.model.height, this.screen.height),
+    ];
+  }
+
+  /**
+   * Maps a real screen coordinate to the model's screen
+   * @param {[number, number]} coordinate - [x, y] in real screen pixels
+   */
+  public toModel([x, y]: [number, number]): [number, number] {
+    return [
+      this.map(x, this.screen.width, this.model.width),
+      this.map(y, this.screen.height, this.model.height),
+    ];
+  }
+
+  /**
+   * Maps the coordinates of a computer action chosen by the model to real screen pixels
+   * @param {Action} action - Action from the model
+   * @returns {Action} The action to execute
+   */
+  public scaleAction(action: Action): Action {
+    if (this.isIdentity || action.tool !== 'computer') return action;
+
+    const params: Record<string, unknown> = { ...action.params };
+    for (const key of ['coordinate', 'start_coordinate']) {
+      const value = params[key];
+      if (Array.isArray(value)) {
+        params[key] = this.toScreen(value as [number, number]);
+      }
+    }
+    return { ...action, params } as Action;
+  }
+
+  /**
+   * Converts the result of a computer action for the model: screenshots are downscaled to
+   * the model's screen size and reported cursor positions are mapped to it
+   * @param {ToolResult} result - Result from the computer
+   * @returns {ToolResult} The result to show the model
+   */
+  public scaleToolResult(result: ToolResult): ToolResult {
+    if (this.isIdentity) return result;
+
+    return {
+      ...result,
+      output:
+        result.output?.replace(/X=(\d+),\s*Y=(\d+)/, (_, x, y) => {
+          const [modelX, modelY] = this.toModel([Number(x), Number(y)]);
+          return `X=${modelX},Y=${modelY}`;
+        }) ?? null,
+      base64_image: result.base64_image
+        ? this.scaleScreenshot(result.base64_image)
+        : result.base64_image,
+    };
+  }
+
+  /**
+   * Downscales a base64 encoded PNG screenshot to the model's screen size. Screenshots that
+   * cannot be decoded, such as other image formats, are shown to the model unscaled.
+   * @param {string} base64Png - Screenshot from the computer
+   * @returns {string} The base64 encoded PNG shown to the model
+   */
+  public scaleScreenshot(base64Png: string): string {
+    try {
+      const image = decodePng(Buffer.from(base64Png, 'base64'));
+      if (
+        image.width === this.model.width &&
+        image.height === this.model.height
+      ) {
+        return base64Png;
+      }
+      return encodePng(
+        resizeImage(image, this.model.width, this.model.height)
+      ).toString('base64');
+    } catch (error) {
+      logger.warn(
+        { error },
+        'Could not scale screenshot, sending it unscaled:'
+      );
+      return base64Png;
+    }
+  }
+
+  /**
+   * Maps a value between two sizes, keeping it on the screen
+   * @private
+   */
+  private map(value: number, from: number, to: number): number {
+    return Math.min(to - 1, Math.max(0, Math.round((value * to) / from)));
+  }
+}
@@ -1,13 +1,16 @@
 import { z } from 'zod';
 import { BashAction } from './bashAction';
-import { ComputerAction } from './computerActions';
+import { ComputerAction, ComputerAction20250124 } from './computerActions';
 import { EditAction } from './editActions';
 
 /**
- * Union type representing all possible actions that can be executed
+ * Union type representing all possible actions that can be executed, for every tool
+ * version. computer_20250124 is tried first so that its extra fields (e.g. the coordinate
+ * of a click) are kept; older actions that it rejects fall through to computer_20241022.
+ * Mouse positions are given as `coordinate`; `coordinates` is accepted as an alias.
  */
 export const Action = z
-  .union([BashAction, ComputerAction, EditAction])
+  .union([BashAction, ComputerAction20250124, ComputerAction, EditAction])
   .describe('An action that can be executed by the system');
 
 export type Action = z.infer<typeof Action>;
@@ -8,6 +8,13 @@ export const BashAction = z
       command: z.string().min(1, {
         message: 'Command string is required',
       }),
+      session: z
+        .string()
+        .min(1)
+        .optional()
+        .describe(
+          'Name of the persistent shell to run the command in; defaults to the shared shell'
+        ),
     }),
   })
   .describe('Execute a bash command.');
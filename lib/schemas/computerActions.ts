@@ -1,11 +1,18 @@
 import { z } from 'zod';
+import { ToolExecutionError } from '../errors';
 
-// Custom error class
-class ComputerToolError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'ComputerToolError';
+// Accepts `coordinates` as an alias of `coordinate`, as used by earlier versions of this SDK
+function normalizeCoordinates(params: unknown): unknown {
+  if (
+    typeof params !== 'object' ||
+    params === null ||
+    !('coordinates' in params) ||
+    'coordinate' in params
+  ) {
+    return params;
   }
+  const { coordinates, ...rest } = params as Record<string, unknown>;
+  return { ...rest, coordinate: coordinates };
 }
 
 // Mouse Actions
@@ -19,7 +26,7 @@ const MouseMoveAction = z
 const LeftClickDragAction = z
   .object({
     action: z.literal('left_click_drag'),
-    coordinates: z.tuple([z.number().int(), z.number().int()]),
+    coordinate: z.tuple([z.number().int(), z.number().int()]),
   })
   .describe('Click and drag with left mouse button to coordinates.');
 
@@ -80,18 +87,21 @@ const ScreenshotAction = z
   .describe('Capture screenshot of current screen.');
 
 // Union of all possible actions
-const ComputerParams = z.discriminatedUnion('action', [
-  MouseMoveAction,
-  CursorPositionAction,
-  LeftClickAction,
-  LeftClickDragAction,
-  RightClickAction,
-  MiddleClickAction,
-  DoubleClickAction,
-  KeyAction,
-  TypeAction,
-  ScreenshotAction,
-]);
+const ComputerParams = z.preprocess(
+  normalizeCoordinates,
+  z.discriminatedUnion('action', [
+    MouseMoveAction,
+    CursorPositionAction,
+    LeftClickAction,
+    LeftClickDragAction,
+    RightClickAction,
+    MiddleClickAction,
+    DoubleClickAction,
+    KeyAction,
+    TypeAction,
+    ScreenshotAction,
+  ])
+);
 
 // Container for computer control actions
 const ComputerAction = z.object({
@@ -99,6 +109,121 @@ const ComputerAction = z.object({
   params: ComputerParams,
 });
 
+// Actions added or extended by the computer_20250124 tool
+const Coordinate = z.tuple([z.number().int(), z.number().int()]);
+const Modifiers = z
+  .string()
+  .describe('Modifier keys to hold during the action, e.g. "shift" or "ctrl"');
+
+const ClickAction20250124 = <T extends string>(
+  action: T,
+  description: string
+) =>
+  z
+    .object({
+      action: z.literal(action),
+      coordinate: Coordinate.optional(),
+      text: Modifiers.optional(),
+    })
+    .describe(description);
+
+const LeftClickAction20250124 = ClickAction20250124(
+  'left_click',
+  'Perform left mouse click, optionally at coordinates.'
+);
+const RightClickAction20250124 = ClickAction20250124(
+  'right_click',
+  'Perform right mouse click, optionally at coordinates.'
+);
+const MiddleClickAction20250124 = ClickAction20250124(
+  'middle_click',
+  'Perform middle mouse click, optionally at coordinates.'
+);
+const DoubleClickAction20250124 = ClickAction20250124(
+  'double_click',
+  'Perform double click with left mouse button, optionally at coordinates.'
+);
+const TripleClickAction = ClickAction20250124(
+  'triple_click',
+  'Perform triple click with left mouse button, optionally at coordinates.'
+);
+
+const LeftClickDragAction20250124 = z
+  .object({
+    action: z.literal('left_click_drag'),
+    start_coordinate: Coordinate,
+    coordinate: Coordinate,
+  })
+  .describe('Drag with left mouse button from one coordinate to another.');
+
+const LeftMouseDownAction = z
+  .object({
+    action: z.literal('left_mouse_down'),
+  })
+  .describe('Press the left mouse button without releasing it.');
+
+const LeftMouseUpAction = z
+  .object({
+    action: z.literal('left_mouse_up'),
+  })
+  .describe('Release the left mouse button.');
+
+const ScrollAction = z
+  .object({
+    action: z.literal('scroll'),
+    coordinate: Coordinate.optional(),
+    scroll_direction: z.enum(['up', 'down', 'left', 'right']),
+    scroll_amount: z.number().int().nonnegative(),
+    text: Modifiers.optional(),
+  })
+  .describe('Scroll by a number of clicks, optionally at coordinates.');
+
+const HoldKeyAction = z
+  .object({
+    action: z.literal('hold_key'),
+    text: z.string().min(1, {
+      message: 'Text is required for hold_key action',
+    }),
+    duration: z.number().nonnegative(),
+  })
+  .describe('Hold down key(s) for a number of seconds.');
+
+const WaitAction = z
+  .object({
+    action: z.literal('wait'),
+    duration: z.number().nonnegative(),
+  })
+  .describe('Wait for a number of seconds.');
+
+// Union of the actions of the computer_20250124 tool
+const ComputerParams20250124 = z.preprocess(
+  normalizeCoordinates,
+  z.discriminatedUnion('action', [
+    MouseMoveAction,
+    CursorPositionAction,
+    LeftClickAction20250124,
+    LeftClickDragAction20250124,
+    RightClickAction20250124,
+    MiddleClickAction20250124,
+    DoubleClickAction20250124,
+    TripleClickAction,
+    LeftMouseDownAction,
+    LeftMouseUpAction,
+    ScrollAction,
+    KeyAction,
+    HoldKeyAction,
+    TypeAction,
+    WaitAction,
+    ScreenshotAction,
+  ])
+);
+
+// Container for computer_20250124 control actions
+const ComputerAction20250124 = z.object({
+  tool: z.literal('computer'),
+  params: ComputerParams20250124,
+});
+
 // Export types inferred from the schemas
 export type MouseMoveAction = z.infer<typeof MouseMoveAction>;
 export type LeftClickDragAction = z.infer<typeof LeftClickDragAction>;
@@ -112,6 +237,21 @@ export type TypeAction = z.infer<typeof TypeAction>;
 export type ScreenshotAction = z.infer<typeof ScreenshotAction>;
 export type ComputerParams = z.infer<typeof ComputerParams>;
 export type ComputerAction = z.infer<typeof ComputerAction>;
+export type TripleClickAction = z.infer<typeof TripleClickAction>;
+export type LeftMouseDownAction = z.infer<typeof LeftMouseDownAction>;
+export type LeftMouseUpAction = z.infer<typeof LeftMouseUpAction>;
+export type ScrollAction = z.infer<typeof ScrollAction>;
+export type HoldKeyAction = z.infer<typeof HoldKeyAction>;
+export type WaitAction = z.infer<typeof WaitAction>;
+export type ComputerParams20250124 = z.infer<typeof ComputerParams20250124>;
+export type ComputerAction20250124 = z.infer<typeof ComputerAction20250124>;
+
+/**
+ * @deprecated Use ToolExecutionError, which the SDK throws when a tool reports an error
+ */
+const ComputerToolError = ToolExecutionError;
+/** @deprecated Use ToolExecutionError */
+type ComputerToolError = ToolExecutionError;
 
 // Export schemas and error class
 export {
@@ -127,5 +267,13 @@ export {
   ScreenshotAction,
   ComputerParams,
   ComputerAction,
+  TripleClickAction,
+  LeftMouseDownAction,
+  LeftMouseUpAction,
+  ScrollAction,
+  HoldKeyAction,
+  WaitAction,
+  ComputerParams20250124,
+  ComputerAction20250124,
   ComputerToolError,
 };
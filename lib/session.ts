@@ -0,0 +1,238 @@
+import type { BetaMessageParam } from '@anthropic-ai/sdk/resources/beta/index.mjs';
+import type {
+  AgentEvent,
+  RunResult,
+  RunUsage,
+  UseComputerOptions,
+} from './agent';
+import type { Computer } from './computer';
+import { SessionBusyError } from './errors';
+import type { ModelProvider, ProviderName } from './providers';
+
+/**
+ * Default options applied to every run of an AgentSession
+ * @property provider - Model provider driving the runs, defaults to 'anthropic'
+ */
+export interface AgentSessionOptions
+  extends Omit<UseComputerOptions, 'messages' | 'pollFollowUps'> {
+  provider?: ProviderName | ModelProvider;
+}
+
+/**
+ * JSON form of an AgentSession, produced by toJSON()
+ * @property version - Format version
+ * @property messages - Conversation transcript
+ * @property usage - Token usage summed over every completed run
+ * @property runs - Number of completed runs
+ */
+export interface SerializedAgentSession {
+  version: 1;
+  messages: BetaMessageParam[];
+  usage: RunUsage;
+  runs: number;
+}
+
+/**
+ * A conversation with the agent that continues across objectives on the same Computer.
+ * Each run starts from the transcript of the previous ones; a run that throws (e.g. when
+ * aborted) leaves the transcript unchanged.
+ *
+ * @example
+ * const session = computer.session();
+ * await session.do('create notes.txt in the home directory');
+ * await session.do('now open the file you just made');
+ * fs.writeFileSync('session.json', JSON.stringify(session));
+ */
+export class AgentSession {
+  readonly computer: Computer;
+  private options: AgentSessionOptions;
+  private messages: BetaMessageParam[];
+  private usage: RunUsage;
+  private runs: number;
+  private pending: string[] = [];
+  private running = false;
+
+  /**
+   * Creates a new AgentSession instance
+   * @param {Computer} computer - Computer the session's runs operate
+   * @param {AgentSessionOptions} options - Default options for every run
+   * @param {SerializedAgentSession} state - Saved state to restore, if any
+   */
+  constructor(
+    computer: Computer,
+    options: AgentSessionOptions = {},
+    state?: SerializedAgentSession
+  ) {
+    this.computer = computer;
+    this.options = options;
+    this.messages = state ? structuredClone(state.messages) : [];
+    this.usage = state
+      ? { ...state.usage }
+      : {
+          input_tokens: 0,
+          output_tokens: 0,
+          cache_creation_input_tokens: 0,
+          cache_read_input_tokens: 0,
+        };
+    this.runs = state?.runs ?? 0;
+  }
+
+  /**
+   * Restores a session saved with toJSON()
+   * @param {Computer} computer - Computer the session's runs operate
+   * @param {SerializedAgentSession | string} state - Saved state, or its JSON text
+   * @param {AgentSessionOptions} options - Default options for every run
+   */
+  static fromJSON(
+    computer: Computer,
+    state: SerializedAgentSession | string,
+    options: AgentSessionOptions = {}
+  ): AgentSession {
+    const parsed: SerializedAgentSession =
+      typeof state === 'string' ? JSON.parse(state) : state;
+    if (parsed.version !== 1 || !Array.isArray(parsed.messages)) {
+      throw new TypeError('Unsupported AgentSession state');
+    }
+    return new AgentSession(computer, options, parsed);
+  }
+
+  /** Copy of the conversation transcript */
+  get transcript(): BetaMessageParam[] {
+    return structuredClone(this.messages);
+  }
+
+  /** Whether a run is in progress */
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Continues the conversation with a new objective
+   * @param {string} objective - Description of the task to perform
+   * @param {UseComputerOptions} options - Options for this run, overriding the session defaults
+   * @returns {Promise<RunResult>} The result of this run; its messages are the full transcript
+   * @throws {SessionBusyError} If another run of this session is in progress
+   */
+  public async do(
+    objective: string,
+    options: Omit<UseComputerOptions, 'messages' | 'pollFollowUps'> = {}
+  ): Promise<RunResult> {
+    this.startRun();
+    try {
+      const { provider, ...runOptions } = this.runOptions(options);
+      const result = await this.computer.do(objective, provider, runOptions);
+      this.finishRun(result);
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Continues the conversation with a new objective, yielding its progress as it happens
+   * @param {string} objective - Description of the task to perform
+   * @param {UseComputerOptions} options - Options for this run, overriding the session defaults
+   * @returns {AsyncGenerator<AgentEvent, RunResult>} Events of the run, returning its RunResult
+   * @throws {SessionBusyError} If another run of this session is in progress
+   */
+  public async *doStream(
+    objective: string,
+    options: Omit<UseComputerOptions, 'messages' | 'pollFollowUps'> = {}
+  ): AsyncGenerator<AgentEvent, RunResult, undefined> {
+    this.startRun();
+    try {
+      const { provider, ...runOptions } = this.runOptions(options);
+      const result = yield* this.computer.doStream(
+        objective,
+        provider,
+        runOptions
+      );
+      this.finishRun(result);
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Sends a user message to the model. During a run it is delivered after the model's
+   * current response; otherwise it is sent along with the next objective.
+   * @param {string} text - Message to send
+   */
+  public inject(text: string) {
+    this.pending.push(text);
+  }
+
+  /**
+   * Clears the transcript, usage and pending messages
+   * @throws {SessionBusyError} If a run is in progress
+   */
+  public reset() {
+    if (this.running) {
+      throw new SessionBusyError('Cannot reset a session while it is running');
+    }
+    this.messages = [];
+    this.pending = [];
+    this.runs = 0;
+    this.usage = {
+      input_tokens: 0,
+      output_tokens: 0,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 0,
+    };
+  }
+
+  /**
+   * @returns the session's state, for restoring it later with AgentSession.fromJSON()
+   */
+  public toJSON(): SerializedAgentSession {
+    return {
+      version: 1,
+      messages: structuredClone(this.messages),
+      usage: { ...this.usage },
+      runs: this.runs,
+    };
+  }
+
+  /**
+   * Marks a run as started
+   * @private
+   */
+  private startRun() {
+    if (this.running) {
+      throw new SessionBusyError(
+        'A run is already in progress; use inject() to add a message to it'
+      );
+    }
+    this.running = true;
+  }
+
+  /**
+   * Stores the transcript and usage of a completed run
+   * @private
+   */
+  private finishRun(result: RunResult) {
+    this.messages = result.messages;
+    this.runs++;
+    this.usage.input_tokens += result.usage.input_tokens;
+    this.usage.output_tokens += result.usage.output_tokens;
+    this.usage.cache_creation_input_tokens +=
+      result.usage.cache_creation_input_tokens;
+    this.usage.cache_read_input_tokens += result.usage.cache_read_input_tokens;
+  }
+
+  /**
+   * Combines the session defaults with the options of a run
+   * @private
+   */
+  private runOptions(
+    options: Omit<UseComputerOptions, 'messages' | 'pollFollowUps'>
+  ): AgentSessionOptions & UseComputerOptions {
+    return {
+      ...this.options,
+      ...options,
+      messages: this.messages,
+      pollFollowUps: () => this.pending.splice(0),
+    };
+  }
+}
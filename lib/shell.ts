@@ -0,0 +1,293 @@
+// bash commands with working directory, environment and exit codes
+import type { Computer, ExecuteOptions } from './computer';
+import type { BashAction } from './schemas/bashAction';
+import type { OutputChunk, ToolResult } from './types';
+import { iterate } from './utils/asyncQueue';
+import { shellQuote } from './utils/shell';
+
+/**
+ * Settings of a Shell, or of a single command
+ * @property cwd - Directory the commands run in
+ * @property env - Environment variables set for the commands
+ * @property timeout - Seconds a command may run before it is stopped, with exit code 124. The
+ *   command then runs in a child shell, so its `cd` and `export` do not carry over.
+ */
+export interface ShellOptions {
+  cwd?: string;
+  env?: Record<string, string>;
+  timeout?: number;
+}
+
+/**
+ * Options for Computer.bash()
+ * @property session - Name of the persistent shell to run the command in; omitted, the
+ *   command runs in the shell shared with the agent
+ */
+export interface BashOptions
+  extends ShellOptions,
+    Pick<ExecuteOptions, 'signal' | 'timeoutMs' | 'sendCancel' | 'onOutput'> {
+  session?: string;
+}
+
+/**
+ * Result of a bash command
+ * @property exitCode - Exit status of the command, or null if the shell ended before reporting it
+ * @property stdout - Standard output, without the exit status trailer
+ * @property stderr - Standard error, reported by the bash tool as the error of its result
+ * @property durationMs - Time from sending the command to receiving its result
+ */
+export interface BashResult {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+}
+
+// Line printed after every command, carrying its exit status
+const EXIT_MARKER = '__hdr_exit_status__';
+const EXIT_TRAILER = new RegExp(`\\n?${EXIT_MARKER}(\\d+)\\n?$`);
+const PARTIAL_TRAILER = new RegExp(`^${EXIT_MARKER}\\d*\\n?$`);
+const STATUS_LINE = `printf '\\n${EXIT_MARKER}%d\\n' $?`;
+// Prints the exit status instead when a command ends the session shell
+const STATUS_TRAP = `trap 'printf "\\n${EXIT_MARKER}%d\\n" $?' EXIT`;
+const STATUS_END = `\n${STATUS_LINE}; trap - EXIT`;
+
+/**
+ * Builds the `cd` and `export` steps that apply a working directory and environment
+ * @private
+ */
+function settingSteps({ cwd, env }: ShellOptions): string[] {
+  const steps: string[] = [];
+  if (cwd !== undefined) steps.push(`cd -- ${shellQuote(cwd)}`);
+  const variables = Object.entries(env ?? {});
+  for (const [name] of variables) {
+    if (!/^[A-Za-z_]\w*$/.test(name)) {
+      throw new TypeError(`Invalid environment variable name: ${name}`);
+    }
+  }
+  if (variables.length > 0) {
+    steps.push(
+      `export ${variables.map(([name, value]) => `${name}=${shellQuote(value)}`).join(' ')}`
+    );
+  }
+  return steps;
+}
+
+/**
+ * Wraps a command so that it is followed by a trailer that prints its exit status. The
+ * command runs in the session shell itself, after the `setup` steps, so that `cd` and
+ * `export` carry over to the next command; a trap prints the status if it ends the shell
+ * with `exit` or under `set -e`. Overrides apply to this command only, so it then runs in a
+ * subshell, or under `timeout` in a child shell. Newlines rather than `;` separate the
+ * parts, so commands ending in a comment or `&` keep working.
+ * @private
+ */
+function withExitStatus(
+  command: string,
+  overrides: ShellOptions = {},
+  setup: string[] = []
+): string {
+  const steps = settingSteps(overrides);
+  let run = `{\n${command}\n}`;
+  if (overrides.timeout !== undefined) {
+    steps.push(`timeout ${overrides.timeout} bash -c ${shellQuote(command)}`);
+    run = `(${steps.join(' && ')})`;
+  } else if (steps.length > 0) {
+    run = `(${[...steps, run].join(' && ')})`;
+  }
+  return `${STATUS_TRAP}\n${[...setup, run].join(' && ')}${STATUS_END}`;
+}
+
+/**
+ * Recovers a command wrapped by withExitStatus(), e.g. to show the command as it was written
+ */
+export function withoutExitStatus(command: string): string {
+  if (
+    !command.startsWith(`${STATUS_TRAP}\n`) ||
+    !command.endsWith(STATUS_END)
+  ) {
+    return command;
+  }
+  const run = command.slice(STATUS_TRAP.length + 1, -STATUS_END.length);
+  if (run.endsWith("')")) {
+    const start = run.indexOf("bash -c '");
+    return run.slice(start + "bash -c '".length, -2).replaceAll("'\\''", "'");
+  }
+  const start = run.indexOf('{\n');
+  return run.slice(start + 2, run.lastIndexOf('\n}'));
+}
+
+/**
+ * Splits the exit status trailer from the result of a command
+ * @private
+ */
+function parseResult(
+  result: ToolResult
+): Pick<BashResult, 'exitCode' | 'stdout' | 'stderr'> {
+  const output = result.output ?? '';
+  const match = output.match(EXIT_TRAILER);
+  return {
+    exitCode: match ? Number(match[1]) : null,
+    stdout: match ? output.slice(0, match.index) : output,
+    stderr: result.error ?? '',
+  };
+}
+
+/**
+ * Whether some streamed output could be the start of the exit status trailer
+ * @private
+ */
+function isTrailerPrefix(text: string): boolean {
+  const rest = text.slice(1);
+  return (
+    text.startsWith('\n') &&
+    (EXIT_MARKER.startsWith(rest) || PARTIAL_TRAILER.test(rest))
+  );
+}
+
+/**
+ * Removes the exit status trailer from streamed stdout. Output that could be the start of
+ * the trailer is held back until the next piece shows whether it is.
+ * @private
+ */
+class TrailerFilter {
+  private held = '';
+  private onOutput: (chunk: OutputChunk) => void;
+
+  constructor(onOutput: (chunk: OutputChunk) => void) {
+    this.onOutput = onOutput;
+  }
+
+  /** Passes a piece of output on, without any part of the trailer */
+  public push(chunk: OutputChunk) {
+    if (chunk.stream !== 'stdout') {
+      this.onOutput(chunk);
+      return;
+    }
+    const text = this.held + chunk.data;
+    const from = Math.max(0, text.length - EXIT_MARKER.length - 24);
+    let split = text.length;
+    for (let index = text.indexOf('\n', from); index !== -1; ) {
+      if (isTrailerPrefix(text.slice(index))) {
+        split = index;
+        break;
+      }
+      index = text.indexOf('\n', index + 1);
+    }
+    this.held = text.slice(split);
+    if (split > 0)
+      this.onOutput({ stream: 'stdout', data: text.slice(0, split) });
+  }
+
+  /** Passes on held back output once the command has finished, unless it was the trailer */
+  public flush() {
+    if (this.held && !EXIT_TRAILER.test(this.held)) {
+      this.onOutput({ stream: 'stdout', data: this.held });
+    }
+    this.held = '';
+  }
+}
+
+/**
+ * A named persistent bash session on a Computer. Commands of the same shell share their
+ * state, such as the working directory and exported variables, while separate shells are
+ * independent. The shell's working directory and environment are set in the session before
+ * its first command; overrides passed to run() apply to that command only.
+ *
+ * @example
+ * const build = computer.shell('build', {
+ *   cwd: '/src/app',
+ *   env: { NODE_ENV: 'production' },
+ * });
+ * await build.run('nvm use 20');
+ * const { exitCode, stderr } = await build.run('npm run build');
+ * if (exitCode !== 0) throw new Error(stderr);
+ */
+export class Shell {
+  readonly computer: Computer;
+  /** Name of the session, or undefined for the shell shared with the agent */
+  readonly name: string | undefined;
+  private options: ShellOptions;
+  private started = false;
+
+  /**
+   * Creates a new Shell instance
+   * @param {Computer} computer - Computer the shell runs on
+   * @param {string} name - Name of the session, or undefined for the shared shell
+   * @param {ShellOptions} options - Settings for every command of the shell
+   */
+  constructor(
+    computer: Computer,
+    name: string | undefined,
+    options: ShellOptions = {}
+  ) {
+    this.computer = computer;
+    this.name = name;
+    this.options = options;
+  }
+
+  /**
+   * Runs a command in the shell
+   * @param {string} command - Command to run
+   * @param {Omit<BashOptions, 'session'>} options - Settings for this command only, and
+   *   timeout and cancellation settings
+   * @returns {Promise<BashResult>} The exit code, output and duration of the command
+   */
+  public async run(
+    command: string,
+    options: Omit<BashOptions, 'session'> = {}
+  ): Promise<BashResult> {
+    const { signal, timeoutMs, sendCancel, onOutput, ...overrides } = options;
+    const timeout = overrides.timeout ?? this.options.timeout;
+    const setup = this.started ? [] : settingSteps(this.options);
+    const params: BashAction['params'] = {
+      command: withExitStatus(command, { ...overrides, timeout }, setup),
+      ...(this.name !== undefined && { session: this.name }),
+    };
+    this.started = true;
+    const filter = onOutput && new TrailerFilter(onOutput);
+    const start = Date.now();
+    const message = await this.computer.execute(
+      { tool: 'bash', params },
+      {
+        signal,
+        timeoutMs,
+        sendCancel,
+        throwOnToolError: false,
+        onOutput: filter && ((chunk) => filter.push(chunk)),
+      }
+    );
+    filter?.flush();
+    return {
+      ...parseResult(message.tool_result),
+      durationMs: Date.now() - start,
+    };
+  }
+
+  /**
+   * Runs a command in the shell, yielding its output as the server streams it
+   * @param {string} command - Command to run
+   * @param {Omit<BashOptions, 'session'>} options - Settings for this command only, and
+   *   timeout and cancellation settings
+   * @returns {AsyncGenerator<OutputChunk, BashResult>} Pieces of output, returning the exit
+   *   code, output and duration once the command finishes. Leaving the loop early aborts
+   *   the command.
+   */
+  public stream(
+    command: string,
+    options: Omit<BashOptions, 'session'> = {}
+  ): AsyncGenerator<OutputChunk, BashResult, undefined> {
+    return iterate(
+      (push, signal) =>
+        this.run(command, {
+          ...options,
+          signal,
+          onOutput: (chunk) => {
+            push(chunk);
+            options.onOutput?.(chunk);
+          },
+        }),
+      options.signal
+    );
+  }
+}
@@ -0,0 +1,173 @@
+// system prompt template for the computer use agent loop
+import type { MachineMetadata } from './types';
+
+/**
+ * Machine-specific instructions that fill the system prompt template
+ * @property osName - Operating system described to the model, e.g. 'Ubuntu'
+ * @property packages - How the model may install software
+ * @property browser - How to open the web browser
+ * @property gui - How to start GUI applications from bash; `{display}` is replaced with the X display
+ */
+export interface SystemPromptPreset {
+  osName: string;
+  packages?: string;
+  browser?: string;
+  gui?: string;
+}
+
+/**
+ * Names of the built-in OS presets
+ */
+export type SystemPromptPresetName = 'ubuntu' | 'debian' | 'fedora' | 'macos';
+
+/**
+ * Built-in presets for common machine images
+ */
+export const systemPromptPresets: Record<
+  SystemPromptPresetName,
+  SystemPromptPreset
+> = {
+  ubuntu: {
+    osName: 'Ubuntu',
+    packages:
+      'You can feel free to install Ubuntu applications with your bash tool. Use curl instead of wget.',
+    browser:
+      'To open firefox, please just click on the firefox icon.  Note, firefox-esr is what is installed on your system.',
+    gui: 'Using bash tool you can start GUI applications, but you need to set export DISPLAY={display} and use a subshell. For example "(DISPLAY={display} xterm &)". GUI apps run with bash tool will appear within your desktop environment, but they may take some time to appear. Take a screenshot to confirm it did.',
+  },
+  debian: {
+    osName: 'Debian',
+    packages:
+      'You can install packages with apt-get from your bash tool. Use curl instead of wget.',
+    browser:
+      'To open firefox, please just click on the firefox icon.  Note, firefox-esr is what is installed on your system.',
+    gui: 'Using bash tool you can start GUI applications, but you need to set export DISPLAY={display} and use a subshell. For example "(DISPLAY={display} xterm &)". GUI apps run with bash tool will appear within your desktop environment, but they may take some time to appear. Take a screenshot to confirm it did.',
+  },
+  fedora: {
+    osName: 'Fedora',
+    packages: 'You can install packages with dnf from your bash tool.',
+    browser: 'To open firefox, please just click on the firefox icon.',
+    gui: 'Using bash tool you can start GUI applications, but you need to set export DISPLAY={display} and use a subshell. For example "(DISPLAY={display} xterm &)". GUI apps run with bash tool will appear within your desktop environment, but they may take some time to appear. Take a screenshot to confirm it did.',
+  },
+  macos: {
+    osName: 'macOS',
+    packages:
+      'You can install software with Homebrew (`brew install`) from your bash tool.',
+    browser: 'To open Safari, click its icon in the Dock.',
+    gui: 'Using bash tool you can start GUI applications with `open -a <Application>`. They may take some time to appear. Take a screenshot to confirm it did.',
+  },
+};
+
+/**
+ * Values available to a system prompt override
+ * @property metadata - Metadata of the connected machine
+ * @property preset - The resolved OS preset
+ * @property display - X display GUI applications are started on, e.g. ':1'
+ * @property date - Current date as shown to the model
+ * @property defaultPrompt - The prompt the template would have produced
+ */
+export interface SystemPromptContext {
+  metadata: MachineMetadata;
+  preset: SystemPromptPreset;
+  display: string;
+  date: string;
+  defaultPrompt: string;
+}
+
+/**
+ * How the system prompt is built
+ * @property preset - OS preset name or custom preset, defaults to 'ubuntu'
+ * @property display - X display for GUI applications, defaults to the machine's display number
+ * @property instructions - Extra instructions appended to the prompt
+ * @property override - Replaces the whole prompt, either as text or built from the template values
+ */
+export interface SystemPromptOptions {
+  preset?: SystemPromptPresetName | SystemPromptPreset;
+  display?: string;
+  instructions?: string;
+  override?: string | ((context: SystemPromptContext) => string);
+}
+
+/**
+ * Combines system prompt options, later ones taking precedence. A string is treated as
+ * extra instructions, and instructions from every source are kept.
+ * @param {(string | SystemPromptOptions | undefined)[]} sources - Options to combine, in increasing precedence
+ * @returns {SystemPromptOptions} The combined options
+ */
+export function mergeSystemPromptOptions(
+  ...sources: (string | SystemPromptOptions | undefined)[]
+): SystemPromptOptions {
+  return sources.reduce<SystemPromptOptions>((merged, source) => {
+    if (source === undefined) return merged;
+    const options =
+      typeof source === 'string' ? { instructions: source } : source;
+    const instructions = [merged.instructions, options.instructions]
+      .filter(Boolean)
+      .join('\n');
+    return {
+      ...merged,
+      ...options,
+      ...(instructions ? { instructions } : {}),
+    };
+  }, {});
+}
+
+/**
+ * Builds the system prompt that describes the machine to the model
+ * @param {MachineMetadata} metadata - Metadata of the connected machine
+ * @param {string | SystemPromptOptions} options - Extra instructions, or template options
+ * @returns {string} The system prompt
+ * @example
+ * buildSystemPrompt(await computer.getMetadata(), {
+ *   preset: 'debian',
+ *   instructions: 'Never close the terminal window.',
+ * });
+ */
+export function buildSystemPrompt(
+  metadata: MachineMetadata,
+  options: string | SystemPromptOptions = {}
+): string {
+  const { preset: presetOption = 'ubuntu', ...rest } =
+    mergeSystemPromptOptions(options);
+  const preset =
+    typeof presetOption === 'string'
+      ? systemPromptPresets[presetOption]
+      : presetOption;
+  const display = rest.display ?? `:${metadata.display_num ?? 1}`;
+  const date = new Date().toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+  const screen =
+    metadata.display_width && metadata.display_height
+      ? ` The screen resolution is ${metadata.display_width}x${metadata.display_height}.`
+      : '';
+  const lines = [
+    `You are utilising a${/^[aeiou]/i.test(preset.osName) ? 'n' : ''} ${preset.osName} virtual machine${metadata.arch ? ` using ${metadata.arch} architecture` : ''} with internet access.${screen}`,
+    preset.packages,
+    preset.browser,
+    preset.gui?.replaceAll('{display}', display),
+    'When using your bash tool with commands that are expected to output very large quantities of text, redirect into a tmp file and use str_replace_editor or `grep -n -B <lines before> -A <lines after> <query> <filename>` to confirm output.',
+    "When viewing a page it can be helpful to zoom out so that you can see everything on the page.  Either that, or make sure you scroll down to see everything before deciding something isn't available.",
+    'When using your computer function calls, they take a while to run and send back to you.  Where possible/feasible, try to chain multiple of these calls all into one function calls request.',
+    `The current date is ${date}.`,
+  ].filter((line): line is string => Boolean(line));
+
+  let prompt = `<SYSTEM_CAPABILITY>\n${lines.map((line) => `* ${line}`).join('\n')}\n</SYSTEM_CAPABILITY>`;
+  if (rest.instructions) {
+    prompt += `\n\n${rest.instructions}`;
+  }
+
+  if (rest.override === undefined) return prompt;
+  return typeof rest.override === 'string'
+    ? rest.override
+    : rest.override({
+        metadata,
+        preset,
+        display,
+        date,
+        defaultPrompt: prompt,
+      });
+}
@@ -0,0 +1,31 @@
+import {
+  MockComputerServer,
+  type MockActionHandler,
+  type MockComputerServerOptions,
+  type MockMcpTool,
+  type MockRegisteredServer,
+} from './mockServer';
+import {
+  ReplayComputer,
+  loadRecording,
+  type RecordedInteraction,
+  type ReplayComputerOptions,
+  type ReplayDivergence,
+  type ReplayMode,
+  type ReplayReport,
+} from './replayComputer';
+
+export {
+  MockComputerServer,
+  type MockActionHandler,
+  type MockComputerServerOptions,
+  type MockMcpTool,
+  type MockRegisteredServer,
+  ReplayComputer,
+  loadRecording,
+  type RecordedInteraction,
+  type ReplayComputerOptions,
+  type ReplayDivergence,
+  type ReplayMode,
+  type ReplayReport,
+};
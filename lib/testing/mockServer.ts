@@ -0,0 +1,428 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type Server as HttpServer,
+  type ServerResponse,
+} from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { Server as McpServer } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  type CallToolResult,
+  type Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Action } from '../schemas/action';
+import type {
+  MachineMetadata,
+  OutputChunk,
+  OutputMessage,
+  StartServerRequest,
+  StartServerResponse,
+  ToolResult,
+} from '../types';
+import { createModuleLogger } from '../utils/logger';
+
+const logger = createModuleLogger('MockComputerServer');
+
+// 1x1 transparent PNG returned for screenshots by default
+const BLANK_PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+/**
+ * Handler that produces the ToolResult for an action received by the mock server. Output
+ * passed to `output` is sent as output frames when the client asked for streaming, and
+ * dropped otherwise.
+ */
+export type MockActionHandler = (
+  action: Action,
+  output: (chunk: OutputChunk) => void
+) => Partial<ToolResult> | Promise<Partial<ToolResult>>;
+
+/**
+ * An MCP tool exposed by the mock server
+ * @property tool - Tool definition returned by tools/list
+ * @property handler - Produces the result of tools/call
+ */
+export interface MockMcpTool {
+  tool: Tool;
+  handler: (
+    args: Record<string, unknown>
+  ) => CallToolResult | Promise<CallToolResult>;
+}
+
+/**
+ * Configuration options for the MockComputerServer
+ */
+export interface MockComputerServerOptions {
+  /** Port to listen on; 0 (default) picks a free port */
+  port?: number;
+  /** Overrides for the machine metadata sent in the welcome message */
+  machineMetadata?: Partial<MachineMetadata>;
+  /** Produces results for actions that have no scripted response queued */
+  handler?: MockActionHandler;
+  /** MCP tools served on the SSE endpoint */
+  mcpTools?: MockMcpTool[];
+  /** Echo the request ID of commands in their responses, defaults to true; disable to act like older servers, which also answer one command at a time */
+  echoRequestId?: boolean;
+}
+
+/**
+ * A request received by the /mcp/register_server route
+ */
+export interface MockRegisteredServer extends StartServerRequest {
+  registeredAt: Date;
+}
+
+/**
+ * In-process server speaking the computer WebSocket protocol, the MCP SSE protocol and the
+ * /mcp/register_server HTTP route, for exercising Computer and useComputer() without a network.
+ *
+ * @example
+ * const server = new MockComputerServer();
+ * await server.start();
+ * server.enqueue({ output: 'hello world' });
+ * await computer.connect({ wsUrl: server.wsUrl, mcpUrl: server.mcpUrl });
+ */
+export class MockComputerServer {
+  private options: MockComputerServerOptions;
+  private httpServer: HttpServer | null = null;
+  private wss: WebSocketServer | null = null;
+  /** Open connections and their session IDs */
+  private sockets = new Map<WebSocket, string>();
+  private mcpTransports = new Map<string, SSEServerTransport>();
+  private scriptedResults: Partial<ToolResult>[] = [];
+  private cursor: [number, number] = [0, 0];
+  private machineMetadata: MachineMetadata;
+  /** Every action received, in order of arrival */
+  receivedActions: Action[] = [];
+  /** Request IDs of every cancel frame received */
+  cancelledRequests: string[] = [];
+  /** Every MCP server registered through /mcp/register_server */
+  registeredServers: MockRegisteredServer[] = [];
+
+  /**
+   * Creates a new MockComputerServer instance
+   * @param {MockComputerServerOptions} options - Configuration options for the mock server
+   */
+  constructor(options: MockComputerServerOptions = {}) {
+    this.options = options;
+    this.machineMetadata = {
+      display_height: 768,
+      display_width: 1024,
+      display_num: 1,
+      arch: 'x86_64',
+      machine_id: null,
+      access_token: null,
+      ...options.machineMetadata,
+    };
+  }
+
+  /**
+   * Base HTTP URL of the running server
+   * @throws {Error} If the server has not been started
+   */
+  get url(): string {
+    const address = this.httpServer?.address() as AddressInfo | null;
+    if (!address) throw new Error('MockComputerServer is not running');
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /** URL to pass as ConnectOptions.wsUrl */
+  get wsUrl(): string {
+    return `${this.url.replace(/^http/, 'ws')}/ws`;
+  }
+
+  /** URL to pass as ConnectOptions.mcpUrl */
+  get mcpUrl(): string {
+    return `${this.url}/mcp`;
+  }
+
+  /**
+   * Starts listening for HTTP, WebSocket and SSE connections
+   */
+  public async start(): Promise<void> {
+    this.httpServer = createServer((req, res) => {
+      this.handleHttpRequest(req, res).catch((error) => {
+        logger.error(`Request failed: ${error.message}`);
+        if (!res.headersSent) res.writeHead(500);
+        res.end(error.message);
+      });
+    });
+    this.wss = new WebSocketServer({ server: this.httpServer });
+    this.wss.on('connection', (ws, req) => this.handleConnection(ws, req));
+
+    await new Promise<void>((resolve) =>
+      this.httpServer!.listen(this.options.port ?? 0, '127.0.0.1', resolve)
+    );
+    logger.info(`Listening on ${this.url}`);
+  }
+
+  /**
+   * Closes every open connection and stops the server
+   */
+  public async stop(): Promise<void> {
+    this.sockets.forEach((_, ws) => ws.terminate());
+    this.sockets.clear();
+    await Promise.all(
+      Array.from(this.mcpTransports.values()).map((transport) =>
+        transport.close()
+      )
+    );
+    this.mcpTransports.clear();
+    this.wss?.close();
+    this.httpServer?.closeAllConnections();
+    await new Promise<void>((resolve) =>
+      this.httpServer ? this.httpServer.close(() => resolve()) : resolve()
+    );
+    this.wss = null;
+    this.httpServer = null;
+  }
+
+  /**
+   * Queues results that are returned, in order, for the next actions received
+   * @param {Partial<ToolResult>[]} results - Results to return
+   */
+  public enqueue(...results: Partial<ToolResult>[]) {
+    this.scriptedResults.push(...results);
+  }
+
+  /**
+   * Closes every WebSocket connection without stopping the server, simulating a network drop
+   */
+  public dropConnections() {
+    this.sockets.forEach((_, ws) => ws.terminate());
+    this.sockets.clear();
+  }
+
+  /**
+   * Sends a message that answers no command to every connection, like a server notification
+   * @param {Partial<ToolResult>} result - Result carried by the message
+   */
+  public push(result: Partial<ToolResult>) {
+    this.sockets.forEach((sessionId, ws) =>
+      this.send(ws, sessionId, '', result)
+    );
+  }
+
+  /**
+   * Clears recorded actions, cancellations, registrations and queued results
+   */
+  public reset() {
+    this.receivedActions = [];
+    this.cancelledRequests = [];
+    this.registeredServers = [];
+    this.scriptedResults = [];
+  }
+
+  /**
+   * Sends the welcome message and answers actions on a new WebSocket connection
+   * @private
+   */
+  private handleConnection(ws: WebSocket, req: IncomingMessage) {
+    const sessionIdHeader = req.headers['x-session-id'];
+    const sessionId =
+      typeof sessionIdHeader === 'string' ? sessionIdHeader : randomUUID();
+    this.sockets.set(ws, sessionId);
+    ws.on('close', () => this.sockets.delete(ws));
+
+    this.send(ws, sessionId, '', {
+      system: JSON.stringify(this.machineMetadata),
+    });
+
+    // Servers that do not echo request IDs answer one command at a time, in order
+    let previous: Promise<void> = Promise.resolve();
+    ws.on('message', (data) => {
+      const handle = () =>
+        this.handleFrame(ws, sessionId, data.toString()).catch((error) =>
+          logger.error(`Failed to handle frame: ${error.message}`)
+        );
+      if (this.options.echoRequestId === false) {
+        previous = previous.then(handle);
+      } else {
+        handle();
+      }
+    });
+  }
+
+  /**
+   * Handles a single frame received on a WebSocket connection
+   * @private
+   */
+  private async handleFrame(ws: WebSocket, sessionId: string, raw: string) {
+    const {
+      request_id: requestId,
+      stream_output: streamOutput,
+      ...frame
+    } = JSON.parse(raw);
+
+    if (frame.type === 'cancel') {
+      this.cancelledRequests.push(requestId);
+      return;
+    }
+
+    const parsed = Action.safeParse(frame);
+    if (!parsed.success) {
+      this.send(ws, sessionId, raw, { error: parsed.error.message }, requestId);
+      return;
+    }
+
+    this.receivedActions.push(parsed.data);
+    const result = await this.resolveResult(parsed.data, (chunk) => {
+      if (!streamOutput) return;
+      const frame: OutputMessage = {
+        type: 'output',
+        request_id: requestId,
+        ...chunk,
+      };
+      ws.send(JSON.stringify(frame));
+    });
+    this.send(ws, sessionId, raw, result, requestId);
+  }
+
+  /**
+   * Produces the result for an action from the script, the handler or the built-in defaults
+   * @private
+   */
+  private async resolveResult(
+    action: Action,
+    output: (chunk: OutputChunk) => void
+  ): Promise<Partial<ToolResult>> {
+    const scripted = this.scriptedResults.shift();
+    if (scripted) return scripted;
+    if (this.options.handler) return this.options.handler(action, output);
+
+    if (action.tool !== 'computer') return { output: '' };
+    switch (action.params.action) {
+      case 'mouse_move':
+        this.cursor = action.params.coordinate;
+        return { output: '' };
+      case 'cursor_position':
+        return { output: `X=${this.cursor[0]},Y=${this.cursor[1]}` };
+      case 'screenshot':
+        return { base64_image: BLANK_PNG_BASE64 };
+      default:
+        return { output: '' };
+    }
+  }
+
+  /**
+   * Sends a ComputerMessage frame
+   * @private
+   */
+  private send(
+    ws: WebSocket,
+    sessionId: string,
+    rawInput: string,
+    result: Partial<ToolResult>,
+    requestId?: string
+  ) {
+    const now = new Date().toISOString();
+    const toolResult: ToolResult = {
+      output: null,
+      error: null,
+      base64_image: null,
+      system: null,
+      ...result,
+    };
+    ws.send(
+      JSON.stringify({
+        raw_input: rawInput,
+        tool_result: toolResult,
+        metadata: {
+          session_id: sessionId,
+          message_id: randomUUID(),
+          request_id:
+            this.options.echoRequestId === false ? undefined : requestId,
+          request_timestamp: now,
+          response_timestamp: now,
+        },
+      })
+    );
+  }
+
+  /**
+   * Routes HTTP requests for the MCP SSE endpoint and the register_server route
+   * @private
+   */
+  private async handleHttpRequest(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? '/', this.url);
+
+    if (req.method === 'GET' && url.pathname === '/mcp') {
+      const transport = new SSEServerTransport('/mcp/messages', res);
+      this.mcpTransports.set(transport.sessionId, transport);
+      transport.onclose = () => this.mcpTransports.delete(transport.sessionId);
+      await this.createMcpServer().connect(transport);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/mcp/messages') {
+      const transport = this.mcpTransports.get(
+        url.searchParams.get('sessionId') ?? ''
+      );
+      if (!transport) {
+        res.writeHead(404).end('Unknown MCP session');
+        return;
+      }
+      await transport.handlePostMessage(req, res);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/mcp/register_server') {
+      const request: StartServerRequest = JSON.parse(await readBody(req));
+      this.registeredServers.push({ ...request, registeredAt: new Date() });
+      const response: StartServerResponse = {
+        tools: (this.options.mcpTools ?? []).map(({ tool }) => tool),
+      };
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response));
+      return;
+    }
+
+    res.writeHead(404).end('Not found');
+  }
+
+  /**
+   * Creates an MCP server exposing the configured tools
+   * @private
+   */
+  private createMcpServer(): McpServer {
+    const server = new McpServer(
+      { name: 'mock-vers-server', version: '0.0.0' },
+      { capabilities: { tools: {} } }
+    );
+    const tools = this.options.mcpTools ?? [];
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: tools.map(({ tool }) => tool),
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const mcpTool = tools.find(
+        ({ tool }) => tool.name === request.params.name
+      );
+      if (!mcpTool) {
+        throw new Error(`Unknown tool: ${request.params.name}`);
+      }
+      return mcpTool.handler(request.params.arguments ?? {});
+    });
+
+    return server;
+  }
+}
+
+/**
+ * Reads the full body of an HTTP request
+ * @param {IncomingMessage} req - Incoming request
+ * @returns {Promise<string>} Request body
+ */
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString();
+}
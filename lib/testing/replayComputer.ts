@@ -0,0 +1,372 @@
+import fs from 'fs';
+import path from 'path';
+import { isDeepStrictEqual } from 'util';
+import type { BetaTool } from '@anthropic-ai/sdk/resources/beta/index.mjs';
+import {
+  Computer,
+  type ComputerOptions,
+  type ExecuteOptions,
+} from '../computer';
+import {
+  AbortError,
+  NotConnectedError,
+  ReplayDivergenceError,
+  ToolExecutionError,
+} from '../errors';
+import { Action } from '../schemas/action';
+import {
+  ComputerMessageLog,
+  MachineMetadata,
+  type ComputerMessage,
+} from '../types';
+import { createModuleLogger } from '../utils/logger';
+
+const logger = createModuleLogger('ReplayComputer');
+
+/**
+ * How executed actions are matched against the recording
+ * - strict: actions must be executed in exactly the recorded order; any divergence throws
+ * - lenient: actions are matched against any unused recorded action, falling back to one
+ *   with the same tool and command; unmatched actions get an error result
+ */
+export type ReplayMode = 'strict' | 'lenient';
+
+/**
+ * Configuration options for the ReplayComputer instance
+ */
+export interface ReplayComputerOptions extends Partial<ComputerOptions> {
+  /** Matching mode, defaults to 'strict' */
+  mode?: ReplayMode;
+}
+
+/**
+ * A recorded action together with the response it received
+ */
+export interface RecordedInteraction {
+  action: Action;
+  requestId?: string;
+  response: ComputerMessage | null;
+}
+
+/**
+ * A point where the replayed run differs from the recording
+ * @property kind - What went wrong
+ * @property action - The action that was executed
+ * @property expected - The recorded action that was expected or substituted, if any
+ */
+export interface ReplayDivergence {
+  kind: 'unexpected-action' | 'mismatched-action' | 'missing-response';
+  action: Action;
+  expected?: Action;
+}
+
+/**
+ * Summary of a replay
+ * @property recorded - Number of recorded interactions
+ * @property matched - Number of executed actions that exactly matched a recorded action
+ * @property divergences - Every divergence, in order
+ * @property unused - Recorded actions that were never executed
+ */
+export interface ReplayReport {
+  recorded: number;
+  matched: number;
+  divergences: ReplayDivergence[];
+  unused: Action[];
+}
+
+/**
+ * Loads the interactions and welcome message from a ComputerLogger run directory
+ * @param {string} runDir - Directory containing conversation.jsonl and screenshots
+ * @returns The recorded interactions and the welcome message, if any
+ */
+export function loadRecording(runDir: string): {
+  interactions: RecordedInteraction[];
+  welcome: ComputerMessage | null;
+} {
+  const lines = fs
+    .readFileSync(path.join(runDir, 'conversation.jsonl'), 'utf-8')
+    .split('\n')
+    .filter((line) => line.trim().length > 0);
+
+  const interactions: RecordedInteraction[] = [];
+  let welcome: ComputerMessage | null = null;
+
+  for (const line of lines) {
+    const entry = JSON.parse(line);
+    const { request_id: requestId, ...rest } = entry;
+
+    const action = Action.safeParse(rest);
+    if (action.success) {
+      interactions.push({ action: action.data, requestId, response: null });
+      continue;
+    }
+
+    const logged = ComputerMessageLog.safeParse(entry);
+    if (!logged.success) {
+      logger.warn(`Skipping unrecognized log entry: ${line.slice(0, 80)}`);
+      continue;
+    }
+
+    const { screenshot_file, ...message } = logged.data;
+    if (screenshot_file) {
+      const file = path.join(runDir, path.basename(screenshot_file));
+      message.tool_result.base64_image = fs.existsSync(file)
+        ? fs.readFileSync(file).toString('base64')
+        : null;
+    }
+
+    const messageRequestId = message.metadata.request_id;
+    const isWelcome =
+      messageRequestId === undefined &&
+      MachineMetadata.safeParse(
+        JSON.parse(message.tool_result.system ?? 'null')
+      ).success;
+    if (isWelcome) {
+      welcome ??= message;
+      continue;
+    }
+
+    // Responses are paired by echoed request ID, or in order when the server does not echo one
+    const interaction = interactions.find(
+      (candidate) =>
+        candidate.response === null &&
+        (messageRequestId === undefined ||
+          candidate.requestId === messageRequestId)
+    );
+    if (interaction) {
+      interaction.response = message;
+    }
+  }
+
+  return { interactions, welcome };
+}
+
+/**
+ * Returns a coarse signature of an action, used by lenient matching
+ * @param {Action} action - Action to describe
+ */
+function actionSignature(action: Action): string {
+  switch (action.tool) {
+    case 'computer':
+      return `computer:${action.params.action}`;
+    case 'str_replace_editor':
+      return `str_replace_editor:${action.params.command}`;
+    default:
+      return action.tool;
+  }
+}
+
+/**
+ * A Computer that serves responses from a ComputerLogger recording instead of a live
+ * machine, for reproducing agent runs deterministically and writing regression tests.
+ *
+ * @example
+ * const computer = new ReplayComputer('./computer_logs/2025-01-01T00:00:00.000Z');
+ * await computer.connect();
+ * await computer.do('the objective of the recorded run');
+ * console.log(computer.getReport());
+ */
+export class ReplayComputer extends Computer {
+  private runDir: string;
+  private mode: ReplayMode;
+  private throwOnToolError: boolean;
+  private interactions: RecordedInteraction[] = [];
+  private used = new Set<RecordedInteraction>();
+  private matched = 0;
+  private divergences: ReplayDivergence[] = [];
+  private connected = false;
+
+  /**
+   * Creates a new ReplayComputer instance
+   * @param {string} runDir - ComputerLogger run directory to replay
+   * @param {ReplayComputerOptions} options - Replay and Computer configuration options
+   */
+  constructor(runDir: string, options: ReplayComputerOptions = {}) {
+    super({ logOutput: false, ...options });
+    this.runDir = runDir;
+    this.mode = options.mode ?? 'strict';
+    this.throwOnToolError = options.throwOnToolError ?? false;
+  }
+
+  /**
+   * Loads the recording and applies its welcome message. Connection options are ignored.
+   */
+  public async connect(): Promise<void> {
+    const { interactions, welcome } = loadRecording(this.runDir);
+    this.interactions = interactions;
+    this.used.clear();
+    this.matched = 0;
+    this.divergences = [];
+    if (welcome) {
+      this.handleConnectionMessage(welcome);
+    }
+    this.connected = true;
+    this.emit('connected');
+  }
+
+  public isConnected(): boolean {
+    return this.connected;
+  }
+
+  public async close() {
+    this.connected = false;
+  }
+
+  /**
+   * Returns the recorded response for an action
+   * @param {Action} command - Command to execute
+   * @param {ExecuteOptions} options - Only signal and throwOnToolError are honored
+   * @throws {ReplayDivergenceError} In strict mode, if the action does not match the recording
+   */
+  public async execute(
+    command: Action,
+    options: ExecuteOptions = {}
+  ): Promise<ComputerMessage> {
+    if (options.signal?.aborted) {
+      throw new AbortError();
+    }
+    if (!this.connected) {
+      await this.connect();
+    }
+
+    const interaction = this.match(command);
+    if (!interaction) {
+      return this.diverge(
+        { kind: 'unexpected-action', action: command },
+        'No recorded response for this action'
+      );
+    }
+
+    this.used.add(interaction);
+    if (!interaction.response) {
+      return this.diverge(
+        {
+          kind: 'missing-response',
+          action: command,
+          expected: interaction.action,
+        },
+        'The recorded action never received a response'
+      );
+    }
+
+    const message = structuredClone(interaction.response);
+    const throwOnToolError = options.throwOnToolError ?? this.throwOnToolError;
+    if (throwOnToolError && message.tool_result.error) {
+      throw new ToolExecutionError(message.tool_result, command);
+    }
+    return message;
+  }
+
+  /**
+   * MCP traffic is not recorded, so a replay exposes no MCP tools
+   */
+  public async listMcpTools(): Promise<BetaTool[]> {
+    return [];
+  }
+
+  public async callMcpTool(): Promise<never> {
+    throw new NotConnectedError('MCP tool calls cannot be replayed');
+  }
+
+  /**
+   * @returns a summary of how the replay compared to the recording so far
+   */
+  public getReport(): ReplayReport {
+    return {
+      recorded: this.interactions.length,
+      matched: this.matched,
+      divergences: [...this.divergences],
+      unused: this.interactions
+        .filter((interaction) => !this.used.has(interaction))
+        .map((interaction) => interaction.action),
+    };
+  }
+
+  /**
+   * Finds the recorded interaction that answers an action according to the matching mode,
+   * recording a 'mismatched-action' divergence when only a lenient match is found
+   * @private
+   */
+  private match(command: Action): RecordedInteraction | undefined {
+    const unused = this.interactions.filter(
+      (interaction) => !this.used.has(interaction)
+    );
+
+    if (this.mode === 'strict') {
+      const next = unused[0];
+      if (next && isDeepStrictEqual(next.action, command)) {
+        this.matched++;
+        return next;
+      }
+      if (next) {
+        this.diverge(
+          { kind: 'mismatched-action', action: command, expected: next.action },
+          'Action does not match the next recorded action'
+        );
+      }
+      return undefined;
+    }
+
+    const exact = unused.find((interaction) =>
+      isDeepStrictEqual(interaction.action, command)
+    );
+    if (exact) {
+      this.matched++;
+      return exact;
+    }
+
+    const similar = unused.find(
+      (interaction) =>
+        actionSignature(interaction.action) === actionSignature(command)
+    );
+    if (similar) {
+      this.recordDivergence({
+        kind: 'mismatched-action',
+        action: command,
+        expected: similar.action,
+      });
+    }
+    return similar;
+  }
+
+  /**
+   * Records a divergence and either throws (strict) or returns an error result (lenient)
+   * @private
+   */
+  private diverge(divergence: ReplayDivergence, reason: string) {
+    this.recordDivergence(divergence);
+    const description = `${reason}: ${JSON.stringify(divergence.action)}`;
+
+    if (this.mode === 'strict') {
+      throw new ReplayDivergenceError(description);
+    }
+
+    const now = new Date();
+    const message: ComputerMessage = {
+      raw_input: JSON.stringify(divergence.action),
+      tool_result: {
+        output: null,
+        error: description,
+        base64_image: null,
+        system: null,
+      },
+      metadata: {
+        session_id: this.sessionId ?? '00000000-0000-0000-0000-000000000000',
+        message_id: '00000000-0000-0000-0000-000000000000',
+        request_timestamp: now,
+        response_timestamp: now,
+      },
+    };
+    return message;
+  }
+
+  /**
+   * Stores a divergence and emits it as a 'divergence' event
+   * @private
+   */
+  private recordDivergence(divergence: ReplayDivergence) {
+    logger.warn({ divergence }, 'Replay diverged from recording');
+    this.divergences.push(divergence);
+    this.emit('divergence', divergence);
+  }
+}
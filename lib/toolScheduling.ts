@@ -0,0 +1,84 @@
+// scheduling of the tool calls in a single assistant turn
+import type { ToolCall } from './providers';
+import { bashTool, computerTool, editTool } from './tools';
+
+/**
+ * How a tool call may overlap with the other tool calls of the same turn
+ * - exclusive: changes the machine or the desktop; waits for every earlier machine tool call
+ * - shared: only reads from the machine; may overlap other shared calls, but waits for
+ *   earlier exclusive calls so that it sees their effects
+ * - independent: does not touch the machine (e.g. MCP tools); starts immediately
+ */
+export type ToolConcurrency = 'exclusive' | 'shared' | 'independent';
+
+/**
+ * Classifies a tool call for parallel execution. GUI actions, bash commands and file edits
+ * are exclusive, editor view calls are shared, and every other tool is assumed to be an
+ * independent MCP tool.
+ * @param {ToolCall} toolCall - Tool call to classify
+ * @returns {ToolConcurrency} How the tool call may overlap with others
+ */
+export function defaultToolConcurrency(toolCall: ToolCall): ToolConcurrency {
+  switch (toolCall.name) {
+    case computerTool.name:
+    case bashTool.name:
+      return 'exclusive';
+    case editTool.name:
+      return toolCall.input.command === 'view' ? 'shared' : 'exclusive';
+    default:
+      return 'independent';
+  }
+}
+
+/**
+ * Starts tool calls as soon as their concurrency class allows. A failed tool call fails
+ * every later call that waits for it.
+ *
+ * @example
+ * const scheduler = new ToolCallScheduler(defaultToolConcurrency);
+ * const results = await Promise.all(
+ *   toolCalls.map((toolCall) => scheduler.schedule(toolCall, () => run(toolCall)))
+ * );
+ */
+export class ToolCallScheduler {
+  private classify: (toolCall: ToolCall) => ToolConcurrency;
+  private lastExclusive: Promise<unknown> = Promise.resolve();
+  private sharedSinceExclusive: Promise<unknown>[] = [];
+
+  /**
+   * Creates a new ToolCallScheduler instance
+   * @param classify - Classifies each tool call; every call is exclusive when omitted
+   */
+  constructor(
+    classify: (toolCall: ToolCall) => ToolConcurrency = () => 'exclusive'
+  ) {
+    this.classify = classify;
+  }
+
+  /**
+   * Schedules a tool call after the earlier calls it depends on
+   * @param {ToolCall} toolCall - Tool call to schedule
+   * @param {() => Promise<T>} run - Executes the tool call
+   * @returns {Promise<T>} The result of run
+   */
+  public schedule<T>(toolCall: ToolCall, run: () => Promise<T>): Promise<T> {
+    const concurrency = this.classify(toolCall);
+    const dependencies =
+      concurrency === 'independent'
+        ? []
+        : concurrency === 'shared'
+          ? [this.lastExclusive]
+          : [this.lastExclusive, ...this.sharedSinceExclusive];
+
+    const result = Promise.all(dependencies).then(run);
+    result.catch(() => {});
+
+    if (concurrency === 'exclusive') {
+      this.lastExclusive = result;
+      this.sharedSinceExclusive = [];
+    } else if (concurrency === 'shared') {
+      this.sharedSinceExclusive.push(result);
+    }
+    return result;
+  }
+}
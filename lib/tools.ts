@@ -1,11 +1,60 @@
+import { truncateText } from './context';
 import { ToolResult } from './types';
 import type {
+  AnthropicBeta,
+  BetaCacheControlEphemeral,
   BetaToolBash20241022,
   BetaToolComputerUse20241022,
   BetaToolResultBlockParam,
   BetaToolTextEditor20241022,
+  BetaToolUnion,
 } from '@anthropic-ai/sdk/resources/beta/index.mjs';
 
+/**
+ * The computer_20250124 tool, which the installed Anthropic SDK does not define yet
+ */
+export interface BetaToolComputerUse20250124 {
+  name: 'computer';
+  type: 'computer_20250124';
+  display_height_px: number;
+  display_width_px: number;
+  display_number?: number | null;
+  cache_control?: BetaCacheControlEphemeral | null;
+}
+
+/**
+ * The bash_20250124 tool, which the installed Anthropic SDK does not define yet
+ */
+export interface BetaToolBash20250124 {
+  name: 'bash';
+  type: 'bash_20250124';
+  cache_control?: BetaCacheControlEphemeral | null;
+}
+
+/**
+ * The text_editor_20250124 tool, which the installed Anthropic SDK does not define yet
+ */
+export interface BetaToolTextEditor20250124 {
+  name: 'str_replace_editor';
+  type: 'text_editor_20250124';
+  cache_control?: BetaCacheControlEphemeral | null;
+}
+
+/**
+ * Any tool definition that can be sent to the model: computer use tools of every version
+ * and custom (MCP) tools
+ */
+export type ToolDefinition =
+  | BetaToolUnion
+  | BetaToolComputerUse20250124
+  | BetaToolBash20250124
+  | BetaToolTextEditor20250124;
+
+/**
+ * Version of the computer use tools, named after their release date
+ */
+export type ToolVersion = '20241022' | '20250124';
+
 export const bashTool: BetaToolBash20241022 = {
   name: 'bash',
   type: 'bash_20241022',
@@ -24,6 +73,79 @@ export const editTool: BetaToolTextEditor20241022 = {
   type: 'text_editor_20241022',
 };
 
+/**
+ * The computer use tools of one version and the beta header they require
+ * @property bash - Bash tool definition
+ * @property computer - Computer tool definition, with the default display size
+ * @property edit - Text editor tool definition
+ * @property beta - Anthropic beta header enabling these tools
+ * @property model - Claude model used with these tools when no model is given
+ */
+export interface ComputerUseToolSet {
+  bash: ToolDefinition & { name: 'bash' };
+  computer: ToolDefinition & {
+    name: 'computer';
+    display_height_px: number;
+    display_width_px: number;
+  };
+  edit: ToolDefinition & { name: 'str_replace_editor' };
+  beta: AnthropicBeta;
+  model: string;
+}
+
+/**
+ * Computer use tool definitions for each tool version
+ */
+export const toolVersions: Record<ToolVersion, ComputerUseToolSet> = {
+  '20241022': {
+    bash: bashTool,
+    computer: computerTool,
+    edit: editTool,
+    beta: 'computer-use-2024-10-22',
+    model: 'claude-3-5-sonnet-20241022',
+  },
+  '20250124': {
+    bash: { name: 'bash', type: 'bash_20250124' },
+    computer: {
+      name: 'computer',
+      type: 'computer_20250124',
+      display_height_px: 768,
+      display_width_px: 1024,
+    },
+    edit: { name: 'str_replace_editor', type: 'text_editor_20250124' },
+    beta: 'computer-use-2025-01-24',
+    model: 'claude-3-7-sonnet-20250219',
+  },
+};
+
+/**
+ * Finds the version of the computer use tools among a list of tools
+ * @param {ToolDefinition[]} tools - Tools to inspect
+ * @returns {ToolVersion | null} Version of the first computer use tool, or null if there is none
+ */
+export function toolVersionOf(tools: ToolDefinition[]): ToolVersion | null {
+  for (const tool of tools) {
+    for (const [version, set] of Object.entries(toolVersions)) {
+      if (
+        [set.bash, set.computer, set.edit].some((t) => t.type === tool.type)
+      ) {
+        return version as ToolVersion;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Chooses the Anthropic beta header required by the computer use tools in a list
+ * @param {ToolDefinition[]} tools - Tools sent to the model
+ * @returns {AnthropicBeta | null} The beta header, or null when no computer use tool is present
+ */
+export function computerUseBeta(tools: ToolDefinition[]): AnthropicBeta | null {
+  const version = toolVersionOf(tools);
+  return version ? toolVersions[version].beta : null;
+}
+
 interface ImageSource {
   type: 'base64';
   media_type: 'image/png';
@@ -48,6 +170,7 @@ interface ImageContent {
  *
  * @param result - The result from executing a tool, containing output/error/image
  * @param toolUseId - Unique ID for this tool use instance from Claude
+ * @param maxOutputChars - Optional limit above which output and error text is truncated
  * @returns Formatted tool result block for Claude's API
  *
  * @example
@@ -61,8 +184,12 @@ interface ImageContent {
  */
 export function makeToolResult(
   result: ToolResult,
-  toolUseId: string
+  toolUseId: string,
+  maxOutputChars?: number
 ): BetaToolResultBlockParam {
+  const truncate = (text: string) =>
+    maxOutputChars === undefined ? text : truncateText(text, maxOutputChars);
+
   const toolResultContent: (TextContent | ImageContent)[] = [];
   let isError = false;
 
@@ -70,13 +197,13 @@ export function makeToolResult(
     isError = true;
     toolResultContent.push({
       type: 'text',
-      text: result.error,
+      text: truncate(result.error),
     });
   } else {
     if (result.output) {
       toolResultContent.push({
         type: 'text',
-        text: result.output,
+        text: truncate(result.output),
       });
     }
     if (result.base64_image) {
@@ -52,6 +52,7 @@ export type ToolResult = z.infer<typeof ToolResult>;
  * Schema for message metadata
  * @property session_id - UUID for the current session
  * @property message_id - UUID for this specific message
+ * @property request_id - Client-generated request ID echoed back by the server, if any
  * @property request_timestamp - When the request was sent
  * @property response_timestamp - When the response was received
  */
@@ -64,6 +65,10 @@ const Metadata = z.object({
     .string()
     .uuid()
     .describe('Unique identifier for this specific message'),
+  request_id: z
+    .string()
+    .optional()
+    .describe('Client-generated request ID echoed back by the server'),
   request_timestamp: z
     .string()
     .datetime()
@@ -92,6 +97,26 @@ export const ComputerMessage = z.object({
 });
 export type ComputerMessage = z.infer<typeof ComputerMessage>;
 
+/**
+ * Schema for incremental output of a command, sent before its ComputerMessage when the
+ * command was sent with stream_output
+ * @property request_id - Request ID of the command
+ * @property stream - Output stream the data was written to
+ * @property data - Output written since the previous frame
+ */
+export const OutputMessage = z.object({
+  type: z.literal('output'),
+  request_id: z.string(),
+  stream: z.enum(['stdout', 'stderr']),
+  data: z.string(),
+});
+export type OutputMessage = z.infer<typeof OutputMessage>;
+
+/**
+ * A piece of output of a running command
+ */
+export type OutputChunk = Pick<OutputMessage, 'stream' | 'data'>;
+
 /**
  * Extended schema for logged computer messages
  * Includes optional path to saved screenshot file
@@ -0,0 +1,118 @@
+/**
+ * Unbounded queue that is consumed as an async iterator. Values pushed before the queue
+ * ends or fails are always delivered before completion or the error.
+ *
+ * @example
+ * const queue = new AsyncQueue<string>();
+ * queue.push('hello');
+ * queue.end();
+ * for await (const value of queue) console.log(value);
+ */
+export class AsyncQueue<T> implements AsyncIterable<T> {
+  private values: T[] = [];
+  private waiters: {
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: unknown) => void;
+  }[] = [];
+  private closed = false;
+  private failure: { error: unknown } | null = null;
+
+  /**
+   * Delivers a value to the next waiting consumer, or buffers it. Ignored once closed.
+   * @param {T} value - Value to deliver
+   */
+  public push(value: T) {
+    if (this.closed) return;
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve({ value, done: false });
+    } else {
+      this.values.push(value);
+    }
+  }
+
+  /**
+   * Completes the iterator once buffered values have been consumed
+   */
+  public end() {
+    if (this.closed) return;
+    this.closed = true;
+    this.waiters
+      .splice(0)
+      .forEach((waiter) => waiter.resolve({ value: undefined, done: true }));
+  }
+
+  /**
+   * Rejects the iterator with an error once buffered values have been consumed
+   * @param {unknown} error - Error to throw to the consumer
+   */
+  public fail(error: unknown) {
+    if (this.closed) return;
+    this.closed = true;
+    this.failure = { error };
+    this.waiters.splice(0).forEach((waiter) => waiter.reject(error));
+  }
+
+  /**
+   * @returns the next value, waiting for one to be pushed if the buffer is empty
+   */
+  public next(): Promise<IteratorResult<T>> {
+    if (this.values.length > 0) {
+      return Promise.resolve({ value: this.values.shift()!, done: false });
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure.error);
+    }
+    if (this.closed) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) =>
+      this.waiters.push({ resolve, reject })
+    );
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return { next: () => this.next() };
+  }
+}
+
+/**
+ * Runs an operation that reports values through a callback, yielding the values as they
+ * arrive and returning the operation's result. Leaving the loop early aborts the operation.
+ *
+ * @example
+ * const lines = iterate<string, number>((push, signal) => tail(file, push, signal));
+ * for await (const line of lines) console.log(line);
+ *
+ * @param start - Starts the operation with the callback and the signal that aborts it
+ * @param signal - Signal that aborts the operation, in addition to leaving the loop early
+ * @returns An async generator of the reported values, returning the operation's result
+ */
+export async function* iterate<T, R>(
+  start: (push: (value: T) => void, signal: AbortSignal) => Promise<R>,
+  signal?: AbortSignal
+): AsyncGenerator<T, R, undefined> {
+  const queue = new AsyncQueue<T>();
+  const controller = new AbortController();
+  // Forwarded by hand rather than with AbortSignal.any(), which needs Node 20.3
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+  const run = start((value) => queue.push(value), controller.signal);
+  run.then(
+    () => queue.end(),
+    (error) => queue.fail(error)
+  );
+
+  try {
+    yield* queue;
+    return await run;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    controller.abort();
+    await run.catch(() => {});
+  }
+}
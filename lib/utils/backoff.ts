@@ -0,0 +1,43 @@
+/**
+ * Options controlling exponential backoff between retries
+ * @property initialDelayMs - Delay before the first retry
+ * @property maxDelayMs - Upper bound for any single delay
+ * @property backoffFactor - Factor the delay grows by after each attempt
+ * @property jitter - Fraction (0-1) of each delay that is randomized
+ */
+export interface BackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffFactor: number;
+  jitter: number;
+}
+
+/**
+ * Computes the delay before a retry attempt using exponential backoff with jitter
+ * @param {number} attempt - 1-based attempt number
+ * @param {BackoffOptions} options - Backoff configuration
+ * @param {() => number} random - Source of randomness in [0, 1), defaults to Math.random
+ * @returns {number} Delay in milliseconds
+ * @example
+ * getBackoffDelay(3, { initialDelayMs: 500, maxDelayMs: 10000, backoffFactor: 2, jitter: 0 }) // Returns 2000
+ */
+export function getBackoffDelay(
+  attempt: number,
+  options: BackoffOptions,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(
+    options.maxDelayMs,
+    options.initialDelayMs * Math.pow(options.backoffFactor, attempt - 1)
+  );
+  const jitter = Math.min(Math.max(options.jitter, 0), 1);
+  return Math.round(base * (1 - jitter * random()));
+}
+
+/**
+ * Resolves after the given number of milliseconds
+ * @param {number} ms - Time to wait in milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -50,9 +50,13 @@ export class ComputerLogger {
   /**
    * Logs an outgoing command to the conversation log file
    * @param command - The command action to log
+   * @param requestId - Client-generated request ID the response will be correlated by
    */
-  public logSend(command: Action): void {
-    fs.appendFileSync(this.conversationLogFile, JSON.stringify(command) + '\n');
+  public logSend(command: Action, requestId?: string): void {
+    fs.appendFileSync(
+      this.conversationLogFile,
+      JSON.stringify({ ...command, request_id: requestId }) + '\n'
+    );
   }
 
   /**
@@ -63,7 +67,10 @@ export class ComputerLogger {
   public logReceive(message: ComputerMessage): void {
     logger.debug(`Logging message: ${JSON.stringify(message)}`);
     const screenshot_file = this.logScreenshot(message);
-    const messageDict: ComputerMessageLog = { ...message };
+    const messageDict: ComputerMessageLog = {
+      ...message,
+      tool_result: { ...message.tool_result },
+    };
     if (screenshot_file) {
       messageDict.screenshot_file = screenshot_file;
     }
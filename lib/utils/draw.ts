@@ -0,0 +1,241 @@
+// drawing of overlays onto RGBA images
+import type { RgbaImage } from './png';
+
+/**
+ * An RGBA color; alpha 255 is opaque
+ */
+export type Color = [number, number, number, number];
+
+// 5x8 bitmap font for printable ASCII, one byte per column with the top row in bit 0
+const FONT = Buffer.from(
+  '0000000000' + // space
+    '00005f0000' + // !
+    '0007000700' + // "
+    '147f147f14' + // #
+    '242a7f2a12' + // $
+    '2313086462' + // %
+    '3649562050' + // &
+    '0008070300' + // '
+    '001c224100' + // (
+    '0041221c00' + // )
+    '2a1c7f1c2a' + // *
+    '08083e0808' + // +
+    '0080703000' + // ,
+    '0808080808' + // -
+    '0000606000' + // .
+    '2010080402' + // /
+    '3e5149453e' + // 0
+    '00427f4000' + // 1
+    '7249494946' + // 2
+    '2141494d33' + // 3
+    '1814127f10' + // 4
+    '2745454539' + // 5
+    '3c4a494931' + // 6
+    '4121110907' + // 7
+    '3649494936' + // 8
+    '464949291e' + // 9
+    '0000140000' + // :
+    '0040340000' + // ;
+    '0008142241' + // <
+    '1414141414' + // =
+    '0041221408' + // >
+    '0201590906' + // ?
+    '3e415d594e' + // @
+    '7c1211127c' + // A
+    '7f49494936' + // B
+    '3e41414122' + // C
+    '7f4141413e' + // D
+    '7f49494941' + // E
+    '7f09090901' + // F
+    '3e41415173' + // G
+    '7f0808087f' + // H
+    '00417f4100' + // I
+    '2040413f01' + // J
+    '7f08142241' + // K
+    '7f40404040' + // L
+    '7f021c027f' + // M
+    '7f0408107f' + // N
+    '3e4141413e' + // O
+    '7f09090906' + // P
+    '3e4151215e' + // Q
+    '7f09192946' + // R
+    '2649494932' + // S
+    '03017f0103' + // T
+    '3f4040403f' + // U
+    '1f2040201f' + // V
+    '3f4038403f' + // W
+    '6314081463' + // X
+    '0304780403' + // Y
+    '6159494d43' + // Z
+    '007f414141' + // [
+    '0204081020' + // backslash
+    '004141417f' + // ]
+    '0402010204' + // ^
+    '4040404040' + // _
+    '0003070800' + // `
+    '2054547840' + // a
+    '7f28444438' + // b
+    '3844444428' + // c
+    '384444287f' + // d
+    '3854545418' + // e
+    '00087e0902' + // f
+    '18a4a49c78' + // g
+    '7f08040478' + // h
+    '00447d4000' + // i
+    '2040403d00' + // j
+    '7f10284400' + // k
+    '00417f4000' + // l
+    '7c04780478' + // m
+    '7c08040478' + // n
+    '3844444438' + // o
+    'fc18242418' + // p
+    '18242418fc' + // q
+    '7c08040408' + // r
+    '4854545424' + // s
+    '04043f4424' + // t
+    '3c4040207c' + // u
+    '1c2040201c' + // v
+    '3c4030403c' + // w
+    '4428102844' + // x
+    '4c9090907c' + // y
+    '4464544c44' + // z
+    '0008364100' + // {
+    '0000770000' + // |
+    '0041360800' + // }
+    '0201020402', // ~
+  'hex'
+);
+
+const GLYPH_WIDTH = 5;
+const GLYPH_HEIGHT = 8;
+// Glyphs are separated by one empty column
+const ADVANCE = GLYPH_WIDTH + 1;
+
+/**
+ * Blends a color over a pixel
+ * @private
+ */
+function blendPixel(image: RgbaImage, x: number, y: number, color: Color) {
+  if (x < 0 || y < 0 || x >= image.width || y >= image.height) return;
+  const offset = (y * image.width + x) * 4;
+  const alpha = color[3] / 255;
+  for (let channel = 0; channel < 3; channel++) {
+    image.data[offset + channel] = Math.round(
+      color[channel] * alpha + image.data[offset + channel] * (1 - alpha)
+    );
+  }
+  image.data[offset + 3] = Math.max(image.data[offset + 3], color[3]);
+}
+
+/**
+ * Fills a rectangle, blending the color over the image
+ * @param {RgbaImage} image - Image to draw on, modified in place
+ * @param {number} x - Left edge
+ * @param {number} y - Top edge
+ * @param {number} width - Width of the rectangle
+ * @param {number} height - Height of the rectangle
+ * @param {Color} color - Fill color
+ */
+export function fillRect(
+  image: RgbaImage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  color: Color
+) {
+  for (
+    let row = Math.max(0, y);
+    row < Math.min(image.height, y + height);
+    row++
+  ) {
+    for (
+      let column = Math.max(0, x);
+      column < Math.min(image.width, x + width);
+      column++
+    ) {
+      blendPixel(image, column, row, color);
+    }
+  }
+}
+
+/**
+ * Draws a ring, e.g. to mark where a click happened
+ * @param {RgbaImage} image - Image to draw on, modified in place
+ * @param {number} centerX - Horizontal position of the center
+ * @param {number} centerY - Vertical position of the center
+ * @param {number} radius - Outer radius
+ * @param {number} thickness - Width of the ring
+ * @param {Color} color - Color of the ring
+ */
+export function drawRing(
+  image: RgbaImage,
+  centerX: number,
+  centerY: number,
+  radius: number,
+  thickness: number,
+  color: Color
+) {
+  const inner = Math.max(0, radius - thickness);
+  for (let y = -radius; y <= radius; y++) {
+    for (let x = -radius; x <= radius; x++) {
+      const distance = Math.sqrt(x * x + y * y);
+      if (distance <= radius && distance >= inner) {
+        blendPixel(image, centerX + x, centerY + y, color);
+      }
+    }
+  }
+}
+
+/**
+ * Measures the width of a line of text drawn with drawText()
+ * @param {string} text - Text to measure
+ * @param {number} scale - Size of a font pixel in image pixels
+ * @returns {number} Width in pixels
+ */
+export function measureText(text: string, scale: number = 1): number {
+  return Math.max(0, text.length * ADVANCE - 1) * scale;
+}
+
+/**
+ * Draws a line of text with a built-in 5x8 pixel font. Characters outside printable ASCII
+ * are drawn as '?'.
+ * @param {RgbaImage} image - Image to draw on, modified in place
+ * @param {string} text - Text to draw
+ * @param {number} x - Left edge of the text
+ * @param {number} y - Top edge of the text
+ * @param {Color} color - Color of the text
+ * @param {number} scale - Size of a font pixel in image pixels
+ */
+export function drawText(
+  image: RgbaImage,
+  text: string,
+  x: number,
+  y: number,
+  color: Color,
+  scale: number = 1
+) {
+  Array.from(text).forEach((character, index) => {
+    const code = character.charCodeAt(0);
+    const glyph =
+      code >= 32 && code <= 126 ? code - 32 : '?'.charCodeAt(0) - 32;
+    for (let column = 0; column < GLYPH_WIDTH; column++) {
+      const bits = FONT[glyph * GLYPH_WIDTH + column];
+      for (let row = 0; row < GLYPH_HEIGHT; row++) {
+        if (bits & (1 << row)) {
+          fillRect(
+            image,
+            x + (index * ADVANCE + column) * scale,
+            y + row * scale,
+            scale,
+            scale,
+            color
+          );
+        }
+      }
+    }
+  });
+}
+
+/** Height of a line of text drawn with drawText() at scale 1 */
+export const TEXT_HEIGHT = GLYPH_HEIGHT;
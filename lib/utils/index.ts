@@ -1,4 +1,50 @@
 import { ComputerLogger } from './computerLogger';
 import { logger, createModuleLogger } from './logger';
+import {
+  defaultModelPricing,
+  estimateCost,
+  type ModelPricing,
+} from './pricing';
+import {
+  decodePng,
+  encodeApng,
+  encodePng,
+  resizeImage,
+  type AnimationFrame,
+  type RgbaImage,
+} from './png';
+import { drawRing, drawText, fillRect, measureText, type Color } from './draw';
+import { shellQuote } from './shell';
+import {
+  formatIssues,
+  validateJsonSchema,
+  zodIssues,
+  type JsonSchema,
+  type ValidationIssue,
+} from './validation';
 
-export { ComputerLogger, logger, createModuleLogger };
+export {
+  ComputerLogger,
+  logger,
+  createModuleLogger,
+  defaultModelPricing,
+  estimateCost,
+  type ModelPricing,
+  formatIssues,
+  validateJsonSchema,
+  zodIssues,
+  type JsonSchema,
+  type ValidationIssue,
+  decodePng,
+  encodeApng,
+  encodePng,
+  resizeImage,
+  type AnimationFrame,
+  type RgbaImage,
+  drawRing,
+  drawText,
+  fillRect,
+  measureText,
+  type Color,
+  shellQuote,
+};
@@ -0,0 +1,475 @@
+// minimal PNG decoding, resizing and encoding for screenshots
+import { deflateSync, inflateSync } from 'zlib';
+
+/**
+ * A decoded image with 8-bit RGBA pixels, row by row
+ * @property width - Width in pixels
+ * @property height - Height in pixels
+ * @property data - width * height * 4 bytes of RGBA
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+// Starting column, starting row, column step and row step of each Adam7 pass
+const ADAM7_PASSES: [number, number, number, number][] = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+// Number of samples per pixel for each color type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Computes the CRC-32 of a buffer, as used by PNG chunks
+ * @param {Uint8Array} bytes - Bytes to checksum
+ */
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Predicts a byte from its left, upper and upper-left neighbours
+ * @private
+ */
+function paeth(left: number, up: number, upLeft: number): number {
+  const p = left + up - upLeft;
+  const pa = Math.abs(p - left);
+  const pb = Math.abs(p - up);
+  const pc = Math.abs(p - upLeft);
+  if (pa <= pb && pa <= pc) return left;
+  return pb <= pc ? up : upLeft;
+}
+
+/**
+ * Reverses the filter of one scanline in place
+ * @private
+ */
+function unfilter(
+  type: number,
+  line: Uint8Array,
+  previous: Uint8Array,
+  bpp: number
+) {
+  for (let i = 0; i < line.length; i++) {
+    const left = i >= bpp ? line[i - bpp] : 0;
+    const up = previous[i];
+    const upLeft = i >= bpp ? previous[i - bpp] : 0;
+    switch (type) {
+      case 0:
+        break;
+      case 1:
+        line[i] = (line[i] + left) & 0xff;
+        break;
+      case 2:
+        line[i] = (line[i] + up) & 0xff;
+        break;
+      case 3:
+        line[i] = (line[i] + ((left + up) >> 1)) & 0xff;
+        break;
+      case 4:
+        line[i] = (line[i] + paeth(left, up, upLeft)) & 0xff;
+        break;
+      default:
+        throw new TypeError(`Invalid PNG: unknown filter type ${type}`);
+    }
+  }
+}
+
+/**
+ * Decodes a PNG into 8-bit RGBA pixels. Every color type, bit depth and interlacing
+ * method of the PNG specification is supported; ancillary chunks other than tRNS are ignored.
+ * @param {Uint8Array} png - PNG file contents
+ * @returns {RgbaImage} The decoded image
+ * @throws {TypeError} If the data is not a valid PNG
+ */
+export function decodePng(png: Uint8Array): RgbaImage {
+  const buffer = Buffer.from(png.buffer, png.byteOffset, png.byteLength);
+  if (
+    buffer.length < PNG_SIGNATURE.length ||
+    !buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)
+  ) {
+    throw new TypeError('Invalid PNG: missing signature');
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlaced = false;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const body = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      bitDepth = body[8];
+      colorType = body[9];
+      interlaced = body[12] === 1;
+    } else if (type === 'PLTE') {
+      palette = body;
+    } else if (type === 'tRNS') {
+      transparency = body;
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!width || !height || channels === undefined) {
+    throw new TypeError('Invalid PNG: missing or unsupported header');
+  }
+  if (colorType === 3 && !palette) {
+    throw new TypeError('Invalid PNG: missing palette');
+  }
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const bitsPerPixel = channels * bitDepth;
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const maxSample = (1 << bitDepth) - 1;
+  const data = new Uint8Array(width * height * 4);
+
+  // Reads sample `index` of a scanline, scaled to 8 bits unless it is a palette index
+  const sample = (line: Uint8Array, index: number): number => {
+    if (bitDepth === 8) return line[index];
+    if (bitDepth === 16) return line[index * 2];
+    const bit = index * bitDepth;
+    const value = (line[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxSample;
+    return colorType === 3 ? value : Math.round((value * 255) / maxSample);
+  };
+  // Reads the full-precision sample, for comparing against tRNS colors
+  const rawSample = (line: Buffer, index: number): number => {
+    if (bitDepth === 16) return line.readUInt16BE(index * 2);
+    if (bitDepth === 8) return line[index];
+    const bit = index * bitDepth;
+    return (line[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+
+  const writePixel = (line: Buffer, x: number, target: number) => {
+    const base = x * channels;
+    switch (colorType) {
+      case 0: {
+        const gray = sample(line, base);
+        data.set([gray, gray, gray], target);
+        data[target + 3] =
+          transparency && rawSample(line, base) === transparency.readUInt16BE(0)
+            ? 0
+            : 255;
+        break;
+      }
+      case 2: {
+        data.set(
+          [sample(line, base), sample(line, base + 1), sample(line, base + 2)],
+          target
+        );
+        data[target + 3] =
+          transparency &&
+          rawSample(line, base) === transparency.readUInt16BE(0) &&
+          rawSample(line, base + 1) === transparency.readUInt16BE(2) &&
+          rawSample(line, base + 2) === transparency.readUInt16BE(4)
+            ? 0
+            : 255;
+        break;
+      }
+      case 3: {
+        const index = sample(line, base);
+        data.set(palette!.subarray(index * 3, index * 3 + 3), target);
+        data[target + 3] =
+          transparency && index < transparency.length
+            ? transparency[index]
+            : 255;
+        break;
+      }
+      case 4: {
+        const gray = sample(line, base);
+        data.set([gray, gray, gray, sample(line, base + 1)], target);
+        break;
+      }
+      case 6:
+        data.set(
+          [
+            sample(line, base),
+            sample(line, base + 1),
+            sample(line, base + 2),
+            sample(line, base + 3),
+          ],
+          target
+        );
+        break;
+    }
+  };
+
+  const passes: [number, number, number, number][] = interlaced
+    ? ADAM7_PASSES
+    : [[0, 0, 1, 1]];
+  let position = 0;
+  for (const [startX, startY, stepX, stepY] of passes) {
+    const passWidth = Math.ceil((width - startX) / stepX);
+    const passHeight = Math.ceil((height - startY) / stepY);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+
+    const stride = Math.ceil((passWidth * bitsPerPixel) / 8);
+    let previous = Buffer.alloc(stride);
+    for (let row = 0; row < passHeight; row++) {
+      if (position + 1 + stride > raw.length) {
+        throw new TypeError('Invalid PNG: image data is truncated');
+      }
+      const filter = raw[position];
+      const line = Buffer.from(
+        raw.subarray(position + 1, position + 1 + stride)
+      );
+      position += 1 + stride;
+      unfilter(filter, line, previous, bpp);
+      previous = line;
+
+      const y = startY + row * stepY;
+      for (let column = 0; column < passWidth; column++) {
+        const x = startX + column * stepX;
+        writePixel(line, column, (y * width + x) * 4);
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Resizes an image. Downscaling averages every source pixel covered by a target pixel,
+ * which keeps thin text and lines legible; upscaling repeats the nearest pixel.
+ * @param {RgbaImage} image - Image to resize
+ * @param {number} width - Target width
+ * @param {number} height - Target height
+ * @returns {RgbaImage} The resized image
+ */
+export function resizeImage(
+  image: RgbaImage,
+  width: number,
+  height: number
+): RgbaImage {
+  if (width === image.width && height === image.height) return image;
+
+  const data = new Uint8Array(width * height * 4);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor(y * scaleY);
+    const bottom = Math.max(top + 1, Math.floor((y + 1) * scaleY));
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor(x * scaleX);
+      const right = Math.max(left + 1, Math.floor((x + 1) * scaleX));
+      const sums = [0, 0, 0, 0];
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          const source = (sy * image.width + sx) * 4;
+          for (let channel = 0; channel < 4; channel++) {
+            sums[channel] += image.data[source + channel];
+          }
+        }
+      }
+      const count = (bottom - top) * (right - left);
+      const target = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        data[target + channel] = Math.round(sums[channel] / count);
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Builds a PNG chunk with its length and CRC
+ * @private
+ */
+function chunk(type: string, body: Uint8Array): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length, 0);
+  header.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), body])), 0);
+  return Buffer.concat([header, body, crc]);
+}
+
+/**
+ * Filters the scanlines of an 8-bit RGBA image. Each scanline uses the filter that yields
+ * the smallest sum of absolute differences, the usual heuristic for good compression.
+ * @private
+ */
+function filterScanlines(image: RgbaImage): Buffer {
+  const { width, height, data } = image;
+  const stride = width * 4;
+  const filtered = Buffer.alloc((stride + 1) * height);
+  const candidate = Buffer.alloc(stride);
+  const empty = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const line = data.subarray(y * stride, (y + 1) * stride);
+    const previous =
+      y > 0 ? data.subarray((y - 1) * stride, y * stride) : empty;
+    const rowStart = y * (stride + 1);
+    let bestScore = Infinity;
+
+    for (let type = 0; type <= 4; type++) {
+      let score = 0;
+      for (let i = 0; i < stride; i++) {
+        const left = i >= 4 ? line[i - 4] : 0;
+        const up = previous[i];
+        const upLeft = i >= 4 ? previous[i - 4] : 0;
+        const predicted =
+          type === 0
+            ? 0
+            : type === 1
+              ? left
+              : type === 2
+                ? up
+                : type === 3
+                  ? (left + up) >> 1
+                  : paeth(left, up, upLeft);
+        const value = (line[i] - predicted) & 0xff;
+        candidate[i] = value;
+        score += value < 128 ? value : 256 - value;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        filtered[rowStart] = type;
+        candidate.copy(filtered, rowStart + 1);
+      }
+    }
+  }
+  return filtered;
+}
+
+/**
+ * Builds the IHDR chunk of an 8-bit RGBA image
+ * @private
+ */
+function headerChunk(width: number, height: number): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+  return chunk('IHDR', header);
+}
+
+/**
+ * Encodes an image as an 8-bit RGBA PNG
+ * @param {RgbaImage} image - Image to encode
+ * @returns {Buffer} PNG file contents
+ */
+export function encodePng(image: RgbaImage): Buffer {
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    headerChunk(image.width, image.height),
+    chunk('IDAT', deflateSync(filterScanlines(image))),
+    chunk('IEND', new Uint8Array(0)),
+  ]);
+}
+
+/**
+ * A frame of an animated PNG
+ * @property image - Pixels of the frame; every frame must have the size of the first
+ * @property delayMs - How long the frame is shown
+ */
+export interface AnimationFrame {
+  image: RgbaImage;
+  delayMs: number;
+}
+
+/**
+ * Encodes frames as an animated PNG (APNG) that loops forever. Frames are encoded one at a
+ * time, so they may be produced lazily to limit memory use. Viewers without APNG support
+ * show the first frame.
+ * @param {Iterable<AnimationFrame>} frames - Frames of the animation, at least one
+ * @returns {Buffer} APNG file contents
+ * @throws {TypeError} If there are no frames or their sizes differ
+ */
+export function encodeApng(frames: Iterable<AnimationFrame>): Buffer {
+  const chunks: Buffer[] = [];
+  let width = 0;
+  let height = 0;
+  let count = 0;
+  let sequence = 0;
+
+  for (const { image, delayMs } of frames) {
+    if (count === 0) {
+      ({ width, height } = image);
+    } else if (image.width !== width || image.height !== height) {
+      throw new TypeError(
+        `Frame ${count} is ${image.width}x${image.height}, expected ${width}x${height}`
+      );
+    }
+
+    const control = Buffer.alloc(26);
+    control.writeUInt32BE(sequence++, 0);
+    control.writeUInt32BE(width, 4);
+    control.writeUInt32BE(height, 8);
+    // x and y offsets stay 0; the delay is given in milliseconds
+    control.writeUInt16BE(
+      Math.min(0xffff, Math.max(0, Math.round(delayMs))),
+      20
+    );
+    control.writeUInt16BE(1000, 22);
+    chunks.push(chunk('fcTL', control));
+
+    const compressed = deflateSync(filterScanlines(image));
+    if (count === 0) {
+      chunks.push(chunk('IDAT', compressed));
+    } else {
+      const body = Buffer.alloc(4 + compressed.length);
+      body.writeUInt32BE(sequence++, 0);
+      compressed.copy(body, 4);
+      chunks.push(chunk('fdAT', body));
+    }
+    count++;
+  }
+  if (count === 0) {
+    throw new TypeError('An animation needs at least one frame');
+  }
+
+  const animation = Buffer.alloc(8);
+  animation.writeUInt32BE(count, 0); // frames; 0 plays loops forever
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    headerChunk(width, height),
+    chunk('acTL', animation),
+    ...chunks,
+    chunk('IEND', new Uint8Array(0)),
+  ]);
+}
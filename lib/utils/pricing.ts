@@ -0,0 +1,61 @@
+/**
+ * Price of a model in USD per million tokens
+ * @property inputPerMillion - Price of uncached input tokens
+ * @property outputPerMillion - Price of output tokens
+ * @property cacheWritePerMillion - Price of input tokens written to the prompt cache, defaults to 1.25x input
+ * @property cacheReadPerMillion - Price of input tokens read from the prompt cache, defaults to 0.1x input
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  cacheWritePerMillion?: number;
+  cacheReadPerMillion?: number;
+}
+
+/**
+ * List prices of common computer use models in USD per million tokens. Pass prices to
+ * useComputer() to override or extend it.
+ */
+export const defaultModelPricing: Record<string, ModelPricing> = {
+  'claude-opus-4-20250514': { inputPerMillion: 15, outputPerMillion: 75 },
+  'claude-sonnet-4-20250514': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-7-sonnet-20250219': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-sonnet-20241022': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-haiku-20241022': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+};
+
+/**
+ * Estimates the cost of a model's token usage
+ * @param {string} model - Model identifier to look up in the price table
+ * @param usage - Token usage, including prompt cache reads and writes if any
+ * @param {Record<string, ModelPricing>} pricing - Price table, defaults to defaultModelPricing
+ * @returns {number | null} Estimated cost in USD, or null if the model has no known price
+ * @example
+ * estimateCost('claude-3-5-sonnet-20241022', { input_tokens: 1_000_000, output_tokens: 0 }) // Returns 3
+ */
+export function estimateCost(
+  model: string,
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  },
+  pricing: Record<string, ModelPricing> = defaultModelPricing
+): number | null {
+  const price = pricing[model];
+  if (!price) return null;
+  const cacheWritePerMillion =
+    price.cacheWritePerMillion ?? price.inputPerMillion * 1.25;
+  const cacheReadPerMillion =
+    price.cacheReadPerMillion ?? price.inputPerMillion * 0.1;
+  return (
+    (usage.input_tokens * price.inputPerMillion +
+      usage.output_tokens * price.outputPerMillion +
+      (usage.cache_creation_input_tokens ?? 0) * cacheWritePerMillion +
+      (usage.cache_read_input_tokens ?? 0) * cacheReadPerMillion) /
+    1_000_000
+  );
+}
@@ -0,0 +1,10 @@
+/**
+ * Quotes a string so that bash reads it as a single literal word
+ * @param {string} value - The string to quote
+ * @returns {string} The quoted string
+ * @example
+ * shellQuote("it's here") // Returns 'it'\''s here'
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,235 @@
+// validation of tool inputs, with errors worded for the model
+import { isDeepStrictEqual } from 'util';
+import type { ZodError } from 'zod';
+
+/**
+ * A single problem found in a tool input
+ * @property path - Location of the problem, from the root of the input
+ * @property message - What is wrong
+ */
+export interface ValidationIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+/**
+ * The subset of JSON Schema checked by validateJsonSchema()
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  pattern?: string;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+/**
+ * Renders a path like `params.coordinate[0]`
+ * @param {(string | number)[]} path - Path to render
+ */
+export function formatPath(path: (string | number)[]): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === 'number'
+        ? `[${segment}]`
+        : index === 0
+          ? segment
+          : `.${segment}`
+    )
+    .join('');
+}
+
+/**
+ * Formats issues as a bulleted list, one issue per line
+ * @param {ValidationIssue[]} issues - Issues to format
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map(({ path, message }) =>
+      path.length > 0 ? `- ${formatPath(path)}: ${message}` : `- ${message}`
+    )
+    .join('\n');
+}
+
+/**
+ * Converts the issues of a ZodError, dropping leading path segments
+ * @param {ZodError} error - Error returned by safeParse()
+ * @param {number} skip - Number of leading path segments to drop, e.g. 1 for `params`
+ */
+export function zodIssues(error: ZodError, skip = 0): ValidationIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.slice(skip),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Returns the JSON type name of a value
+ * @private
+ */
+function jsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value;
+}
+
+/**
+ * Tests a string against a JSON Schema pattern; patterns that are not valid regular
+ * expressions are ignored
+ * @private
+ */
+function matchesPattern(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(pattern, 'u').test(value);
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Validates a value against a JSON Schema. Only the common keywords listed in JsonSchema
+ * are checked; others, such as $ref and format, are ignored.
+ * @param {JsonSchema} schema - Schema to validate against
+ * @param {unknown} value - Value to validate
+ * @param {(string | number)[]} path - Path of the value, for nested schemas
+ * @returns {ValidationIssue[]} Problems found, empty when the value is valid
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path: (string | number)[] = []
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const fail = (message: string, at = path) =>
+    issues.push({ path: at, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = jsonType(value);
+    const typeMatches = types.some(
+      (type) => type === actual || (type === 'number' && actual === 'integer')
+    );
+    if (!typeMatches) {
+      fail(`Expected ${types.join(' or ')}, received ${actual}`);
+      return issues;
+    }
+  }
+
+  if (
+    schema.enum !== undefined &&
+    !schema.enum.some((option) => isDeepStrictEqual(option, value))
+  ) {
+    fail(
+      `Expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`
+    );
+  }
+  if ('const' in schema && !isDeepStrictEqual(schema.const, value)) {
+    fail(`Expected ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`Must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`Must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`Must contain at least ${schema.minLength} character(s)`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`Must contain at most ${schema.maxLength} character(s)`);
+    }
+    if (
+      schema.pattern !== undefined &&
+      !matchesPattern(schema.pattern, value)
+    ) {
+      fail(`Must match the pattern ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`Must contain at least ${schema.minItems} item(s)`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`Must contain at most ${schema.maxItems} item(s)`);
+    }
+    if (schema.items !== undefined) {
+      value.forEach((item, index) =>
+        issues.push(
+          ...validateJsonSchema(schema.items!, item, [...path, index])
+        )
+      );
+    }
+  }
+
+  if (jsonType(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) fail('Required', [...path, key]);
+    }
+    for (const [key, item] of Object.entries(record)) {
+      if (key in properties) {
+        issues.push(
+          ...validateJsonSchema(properties[key], item, [...path, key])
+        );
+      } else if (schema.additionalProperties === false) {
+        fail(`Unrecognized property '${key}'`, [...path, key]);
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(
+          ...validateJsonSchema(schema.additionalProperties, item, [
+            ...path,
+            key,
+          ])
+        );
+      }
+    }
+  }
+
+  for (const subschema of schema.allOf ?? []) {
+    issues.push(...validateJsonSchema(subschema, value, path));
+  }
+  if (schema.anyOf !== undefined) {
+    const results = schema.anyOf.map((subschema) =>
+      validateJsonSchema(subschema, value, path)
+    );
+    if (!results.some((result) => result.length === 0)) {
+      fail('Does not match any of the allowed schemas');
+    }
+  }
+  if (schema.oneOf !== undefined) {
+    const matching = schema.oneOf.filter(
+      (subschema) => validateJsonSchema(subschema, value, path).length === 0
+    ).length;
+    if (matching !== 1) {
+      fail(
+        matching === 0
+          ? 'Does not match any of the allowed schemas'
+          : 'Matches more than one of the allowed schemas'
+      );
+    }
+  }
+
+  return issues;
+}
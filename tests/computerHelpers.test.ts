@@ -0,0 +1,95 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from 'bun:test';
+import { Computer } from '../lib/computer';
+import { ProtocolError, ToolExecutionError } from '../lib/errors';
+import { MockComputerServer } from '../lib/testing';
+
+describe('Computer helpers', () => {
+  let server: MockComputerServer;
+  let computer: Computer;
+
+  beforeAll(async () => {
+    server = new MockComputerServer();
+    await server.start();
+    computer = new Computer({ logOutput: false });
+    await computer.connect({ wsUrl: server.wsUrl, mcpUrl: server.mcpUrl });
+  });
+
+  afterAll(async () => {
+    await computer.close();
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('should send mouse and keyboard actions', async () => {
+    await computer.click(10, 20);
+    await computer.click(30, 40, { button: 'right' });
+    await computer.click(50, 60, { double: true });
+    await computer.drag({ x: 1, y: 2 }, { x: 3, y: 4 });
+    await computer.type('hello');
+    await computer.press('ctrl+s');
+
+    expect(server.receivedActions.map((action) => action.params)).toEqual([
+      { action: 'mouse_move', coordinate: [10, 20] },
+      { action: 'left_click' },
+      { action: 'mouse_move', coordinate: [30, 40] },
+      { action: 'right_click' },
+      { action: 'mouse_move', coordinate: [50, 60] },
+      { action: 'double_click' },
+      { action: 'mouse_move', coordinate: [1, 2] },
+      { action: 'left_click_drag', coordinate: [3, 4] },
+      { action: 'type', text: 'hello' },
+      { action: 'key', text: 'ctrl+s' },
+    ]);
+    await expect(
+      computer.click(0, 0, { button: 'middle', double: true })
+    ).rejects.toBeInstanceOf(TypeError);
+  });
+
+  it('should parse the cursor position', async () => {
+    await computer.moveMouse(120, 340);
+    expect(await computer.cursorPosition()).toEqual({ x: 120, y: 340 });
+
+    server.enqueue({ output: 'somewhere' });
+    await expect(computer.cursorPosition()).rejects.toBeInstanceOf(
+      ProtocolError
+    );
+  });
+
+  it('should throw when the tool reports an error', async () => {
+    server.enqueue({ error: 'xdotool not found' });
+    const promise = computer.type('hello');
+    await expect(promise).rejects.toBeInstanceOf(ToolExecutionError);
+    await expect(promise).rejects.toThrow(
+      "Tool 'computer' failed: xdotool not found"
+    );
+  });
+
+  it('should return the output and exit code of bash commands', async () => {
+    server.enqueue({
+      output: 'file.txt\n\n__hdr_exit_status__2',
+      error: 'warning: cache is stale',
+    });
+    expect(await computer.bash('ls')).toMatchObject({
+      exitCode: 2,
+      stdout: 'file.txt\n',
+      stderr: 'warning: cache is stale',
+    });
+
+    server.enqueue({});
+    expect(await computer.bash('exit')).toMatchObject({
+      exitCode: null,
+      stdout: '',
+      stderr: '',
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'bun:test';
+import type { BetaMessageParam } from '@anthropic-ai/sdk/resources/beta/index.mjs';
+import {
+  IMAGE_PLACEHOLDER,
+  pruneImages,
+  summarizeHistory,
+  truncateText,
+} from '../lib/context';
+import type { ModelProvider, ModelRequest } from '../lib/providers';
+import { makeToolResult } from '../lib/tools';
+
+function screenshotTurn(id: string): BetaMessageParam[] {
+  return [
+    {
+      role: 'assistant',
+      content: [
+        {
+          type: 'tool_use',
+          id,
+          name: 'computer',
+          input: { action: 'screenshot' },
+        },
+      ],
+    },
+    {
+      role: 'user',
+      content: [
+        makeToolResult(
+          { output: null, error: null, base64_image: id, system: null },
+          id
+        ),
+      ],
+    },
+  ];
+}
+
+describe('truncateText', () => {
+  it('should keep the head and tail of long text', () => {
+    const text = 'a'.repeat(500) + 'b'.repeat(500);
+    const truncated = truncateText(text, 200);
+    expect(truncated.length).toBeLessThanOrEqual(200);
+    expect(truncated.startsWith('aaa')).toBe(true);
+    expect(truncated.endsWith('bbb')).toBe(true);
+    expect(truncated).toContain('characters truncated');
+    expect(truncateText('short', 200)).toBe('short');
+  });
+
+  it('should not exceed maxChars when the marker does not fit', () => {
+    const text = 'x'.repeat(1000);
+    for (const maxChars of [0, 10, 40, 50, 60]) {
+      expect(truncateText(text, maxChars).length).toBeLessThanOrEqual(maxChars);
+    }
+    expect(truncateText(text, 10)).toBe('x'.repeat(10));
+  });
+
+  it('should be applied to tool output by makeToolResult', () => {
+    const result = makeToolResult(
+      {
+        output: 'x'.repeat(10_000),
+        error: null,
+        base64_image: null,
+        system: null,
+      },
+      'call_1',
+      1000
+    );
+    const [block] = result.content as { type: 'text'; text: string }[];
+    expect(block.text.length).toBeLessThanOrEqual(1000);
+  });
+});
+
+describe('pruneImages', () => {
+  it('should replace all but the most recent images', () => {
+    const messages: BetaMessageParam[] = [
+      { role: 'user', content: 'take screenshots' },
+      ...screenshotTurn('one'),
+      ...screenshotTurn('two'),
+      ...screenshotTurn('three'),
+    ];
+
+    expect(pruneImages(messages, 2)).toBe(1);
+    const images = JSON.stringify(messages);
+    expect(images).not.toContain('"data":"one"');
+    expect(images).toContain('"data":"two"');
+    expect(images).toContain('"data":"three"');
+    expect(images).toContain(IMAGE_PLACEHOLDER);
+    expect(pruneImages(messages, 2)).toBe(0);
+  });
+});
+
+describe('summarizeHistory', () => {
+  it('should replace older turns with a summary', async () => {
+    const requests: ModelRequest[] = [];
+    const provider: ModelProvider = {
+      name: 'scripted',
+      model: 'scripted-model',
+      createMessage: async (request) => {
+        requests.push(request);
+        return {
+          text: 'Took two screenshots.',
+          toolCalls: [],
+          content: [],
+          stopReason: 'end_turn',
+          usage: { input_tokens: 10, output_tokens: 5 },
+        };
+      },
+    };
+    const messages: BetaMessageParam[] = [
+      { role: 'user', content: 'take screenshots' },
+      ...screenshotTurn('one'),
+      ...screenshotTurn('two'),
+      ...screenshotTurn('three'),
+    ];
+
+    const compacted = await summarizeHistory(
+      'take screenshots',
+      messages,
+      provider,
+      { keepRecentMessages: 2 }
+    );
+
+    expect(compacted?.messages).toHaveLength(3);
+    expect(compacted?.messages[0].content).toContain('take screenshots');
+    expect(compacted?.messages[0].content).toContain('Took two screenshots.');
+    expect(compacted?.messages[1].role).toBe('assistant');
+    expect(compacted?.usage).toEqual({ input_tokens: 10, output_tokens: 5 });
+    expect(requests[0].messages[0].content).not.toContain('"data"');
+
+    expect(
+      await summarizeHistory(
+        'take screenshots',
+        messages.slice(0, 3),
+        provider,
+        {
+          keepRecentMessages: 2,
+        }
+      )
+    ).toBeNull();
+  });
+
+  it('should carry over the given task rather than the first message', async () => {
+    const provider: ModelProvider = {
+      name: 'scripted',
+      model: 'scripted-model',
+      createMessage: async () => ({
+        text: 'Opened the browser.',
+        toolCalls: [],
+        content: [],
+        stopReason: 'end_turn',
+        usage: { input_tokens: 10, output_tokens: 5 },
+      }),
+    };
+    const messages: BetaMessageParam[] = [
+      { role: 'user', content: 'an earlier task of the session' },
+      ...screenshotTurn('one'),
+      { role: 'user', content: 'take screenshots' },
+      ...screenshotTurn('two'),
+      ...screenshotTurn('three'),
+    ];
+
+    const compacted = await summarizeHistory(
+      'take screenshots',
+      messages,
+      provider,
+      { keepRecentMessages: 2 }
+    );
+
+    expect(compacted?.messages[0].content).toStartWith(
+      'take screenshots\n\n<progress_summary>'
+    );
+    expect(compacted?.messages[0].content).not.toContain('earlier task');
+  });
+});
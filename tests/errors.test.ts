@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { Computer } from '../lib/computer';
+import * as errors from '../lib/errors';
+import {
+  ComputerError,
+  McpServerError,
+  MetadataTimeoutError,
+  NotConnectedError,
+  ProtocolError,
+  ToolExecutionError,
+} from '../lib/errors';
+import { schemas } from '../lib';
+import { MockComputerServer } from '../lib/testing';
+
+describe('Error hierarchy', () => {
+  let server: MockComputerServer;
+  let computer: Computer;
+
+  beforeAll(async () => {
+    server = new MockComputerServer();
+    await server.start();
+    computer = new Computer({ logOutput: false });
+    await computer.connect({ wsUrl: server.wsUrl, mcpUrl: server.mcpUrl });
+  });
+
+  afterAll(async () => {
+    await computer.close();
+    await server.stop();
+  });
+
+  it('should derive every error from ComputerError and name it after its class', () => {
+    for (const [name, ErrorClass] of Object.entries(errors)) {
+      expect(ErrorClass.prototype).toBeInstanceOf(Error);
+      expect(
+        ErrorClass === ComputerError ||
+          ErrorClass.prototype instanceof ComputerError
+      ).toBe(true);
+      const error = Reflect.construct(ErrorClass, ['a', 'b', 'c']);
+      expect(error.name).toBe(name);
+    }
+  });
+
+  it('should throw ToolExecutionError with the result and command', async () => {
+    server.enqueue({ error: 'command not found' });
+    const command = { tool: 'bash', params: { command: 'nope' } } as const;
+    const error = await computer
+      .execute(command, { throwOnToolError: true })
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(ToolExecutionError);
+    expect(error.message).toBe("Tool 'bash' failed: command not found");
+    expect(error.command).toEqual(command);
+    expect(error.result).toMatchObject({ error: 'command not found' });
+    expect(error).toBeInstanceOf(schemas.computerActions.ComputerToolError);
+  });
+
+  it('should throw ProtocolError for responses that break the protocol', async () => {
+    server.enqueue({ output: 'no image' });
+    await expect(computer.screenshot()).rejects.toBeInstanceOf(ProtocolError);
+  });
+
+  it('should throw NotConnectedError and MetadataTimeoutError before connecting', async () => {
+    const disconnected = new Computer({ logOutput: false });
+    await expect(disconnected.callMcpTool('echo', {})).rejects.toBeInstanceOf(
+      NotConnectedError
+    );
+    await expect(disconnected.getMetadata(10)).rejects.toBeInstanceOf(
+      MetadataTimeoutError
+    );
+  });
+
+  it('should keep the response of failed MCP registrations', () => {
+    const error = new McpServerError(502, 'Bad Gateway', 'upstream down');
+    expect(error.message).toBe('502 Bad Gateway: upstream down');
+    expect([error.status, error.statusText, error.body]).toEqual([
+      502,
+      'Bad Gateway',
+      'upstream down',
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from 'bun:test';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Computer } from '../lib/computer';
+import { RemoteFileError, ToolExecutionError } from '../lib/errors';
+import type { Action } from '../lib/schemas/action';
+import { MockComputerServer } from '../lib/testing';
+import type { ToolResult } from '../lib/types';
+
+/**
+ * Runs bash commands on this machine and shows files like the str_replace_editor tool
+ */
+function localTools(action: Action): Partial<ToolResult> {
+  if (action.tool === 'bash') {
+    const result = spawnSync('bash', ['-c', action.params.command], {
+      encoding: 'utf8',
+    });
+    return { output: result.stdout || null, error: result.stderr || null };
+  }
+  if (
+    action.tool === 'str_replace_editor' &&
+    action.params.command === 'view'
+  ) {
+    const lines = fs.readFileSync(action.params.path, 'utf8').split('\n');
+    const [start, end] = action.params.view_range ?? [1, -1];
+    const numbered = lines
+      .slice(start - 1, end === -1 ? undefined : end)
+      .map((line, index) => `${String(index + start).padStart(6)}\t${line}`);
+    return {
+      output: `Here's the result of running \`cat -n\` on ${action.params.path}:\n${numbered.join('\n')}\n`,
+    };
+  }
+  return { output: 'ok' };
+}
+
+describe('RemoteFileSystem', () => {
+  let server: MockComputerServer;
+  let computer: Computer;
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hdr-fs-'));
+    server = new MockComputerServer({ handler: localTools });
+    await server.start();
+    computer = new Computer({ logOutput: false });
+    await computer.connect({ wsUrl: server.wsUrl, mcpUrl: server.mcpUrl });
+  });
+
+  afterAll(async () => {
+    await computer.close();
+    await server.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('should read text files without line numbers', async () => {
+    const file = path.join(dir, 'notes.txt');
+    fs.writeFileSync(file, 'first\n  second\nthird\n');
+
+    expect(await computer.fs.readFile(file)).toBe('first\n  second\nthird\n');
+    expect(await computer.fs.readFile(file, { range: [2, 3] })).toBe(
+      '  second\nthird'
+    );
+  });
+
+  it('should send edits to the editor tool', async () => {
+    const file = path.join(dir, 'app.conf');
+    await computer.fs.writeFile(file, 'port = 8080\n');
+    await computer.fs.replace(file, '8080', '9090');
+    await computer.fs.insertAt(file, 0, '# app\n');
+    await computer.fs.undo(file);
+
+    expect(server.receivedActions.map((action) => action.params)).toEqual([
+      { command: 'create', path: file, file_text: 'port = 8080\n' },
+      { command: 'str_replace', path: file, old_str: '8080', new_str: '9090' },
+      { command: 'insert', path: file, insert_line: 0, new_str: '# app\n' },
+      { command: 'undo_edit', path: file },
+    ]);
+
+    server.enqueue({ error: 'File already exists' });
+    await expect(computer.fs.writeFile(file, '')).rejects.toBeInstanceOf(
+      ToolExecutionError
+    );
+    await expect(computer.fs.readFile('notes.txt')).rejects.toBeInstanceOf(
+      TypeError
+    );
+  });
+
+  it('should list directories and stat files', async () => {
+    const listed = path.join(dir, 'listed');
+    fs.mkdirSync(path.join(listed, 'sub'), { recursive: true });
+    fs.writeFileSync(path.join(listed, 'b file.txt'), 'hello');
+    fs.chmodSync(path.join(listed, 'b file.txt'), 0o640);
+    fs.symlinkSync('missing', path.join(listed, 'link'));
+
+    const entries = await computer.fs.listDir(listed);
+    expect(entries.map(({ name, type }) => ({ name, type }))).toEqual([
+      { name: 'b file.txt', type: 'file' },
+      { name: 'link', type: 'symlink' },
+      { name: 'sub', type: 'directory' },
+    ]);
+
+    const stat = await computer.fs.stat(path.join(listed, 'b file.txt'));
+    expect(stat).toMatchObject({ type: 'file', size: 5, mode: 0o640 });
+    expect(stat.modifiedAt.getTime()).toBeCloseTo(
+      fs.statSync(path.join(listed, 'b file.txt')).mtimeMs,
+      -3
+    );
+
+    expect(await computer.fs.exists(path.join(listed, 'link'))).toBe(true);
+    expect(await computer.fs.exists(path.join(listed, 'nope'))).toBe(false);
+    const missing = computer.fs.stat(path.join(listed, 'nope'));
+    await expect(missing).rejects.toBeInstanceOf(RemoteFileError);
+    await expect(missing).rejects.toThrow('No such file or directory');
+  });
+
+  it('should upload and download binary files with checksums', async () => {
+    const file = path.join(dir, "it's binary.bin");
+    const data = Buffer.from(
+      Array.from({ length: 1000 }, (_, i) => (i * 37) % 256)
+    );
+
+    const uploaded = await computer.fs.upload(file, data, { chunkBytes: 300 });
+    expect(fs.readFileSync(file)).toEqual(data);
+    expect(uploaded.size).toBe(1000);
+    expect(fs.readdirSync(dir)).not.toContainEqual(
+      expect.stringContaining('.b64')
+    );
+
+    const downloaded = await computer.fs.download(file, { chunkBytes: 256 });
+    expect(downloaded.data).toEqual(data);
+    expect(downloaded.sha256).toBe(uploaded.sha256);
+
+    await computer.fs.upload(path.join(dir, 'empty'), '');
+    expect(fs.readFileSync(path.join(dir, 'empty'), 'utf8')).toBe('');
+  });
+
+  it('should enforce size limits', async () => {
+    const file = path.join(dir, 'large.bin');
+    fs.writeFileSync(file, Buffer.alloc(2048));
+    server.reset();
+
+    await expect(
+      computer.fs.upload(file, Buffer.alloc(2048), { maxBytes: 1024 })
+    ).rejects.toThrow('2048 bytes exceeds the upload limit of 1024 bytes');
+    expect(server.receivedActions).toEqual([]);
+    await expect(
+      computer.fs.download(file, { maxBytes: 1024 })
+    ).rejects.toThrow('2048 bytes exceeds the download limit of 1024 bytes');
+    await expect(computer.fs.download(dir)).rejects.toThrow(
+      'Not a regular file (directory)'
+    );
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect } from 'bun:test';
+import Anthropic from '@anthropic-ai/sdk';
+import { StreamInterruptedError } from '../../lib/errors';
+import { AnthropicProvider } from '../../lib/providers';
+import { bashTool, computerTool, toolVersions } from '../../lib/tools';
+import type { ModelRequest, ToolCall } from '../../lib/providers';
+
+const REQUEST: ModelRequest = {
+  system: 'be helpful',
+  messages: [{ role: 'user', content: 'list /tmp' }],
+  tools: [],
+  maxTokens: 1024,
+};
+
+/**
+ * Creates a provider whose client receives the given server-sent events
+ */
+function providerWithEvents(events: object[]): AnthropicProvider {
+  const body = events
+    .map(
+      (event) =>
+        `event: ${'type' in event ? event.type : 'message'}\n` +
+        `data: ${JSON.stringify(event)}\n\n`
+    )
+    .join('');
+  const client = new Anthropic({
+    apiKey: 'test',
+    maxRetries: 0,
+    fetch: async () =>
+      new Response(body, {
+        headers: { 'content-type': 'text/event-stream' },
+      }),
+  });
+  return new AnthropicProvider({ client });
+}
+
+const MESSAGE_START = {
+  type: 'message_start',
+  message: {
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-3-5-sonnet-20241022',
+    content: [],
+    stop_reason: null,
+    stop_sequence: null,
+    usage: { input_tokens: 50, output_tokens: 1 },
+  },
+};
+
+const TEXT_BLOCK = [
+  {
+    type: 'content_block_start',
+    index: 0,
+    content_block: { type: 'text', text: '' },
+  },
+  {
+    type: 'content_block_delta',
+    index: 0,
+    delta: { type: 'text_delta', text: 'Listing ' },
+  },
+  {
+    type: 'content_block_delta',
+    index: 0,
+    delta: { type: 'text_delta', text: 'files.' },
+  },
+  { type: 'content_block_stop', index: 0 },
+];
+
+function toolUseBlock(index: number, id: string, fragments: string[]) {
+  return [
+    {
+      type: 'content_block_start',
+      index,
+      content_block: { type: 'tool_use', id, name: 'bash', input: {} },
+    },
+    ...fragments.map((partial_json) => ({
+      type: 'content_block_delta',
+      index,
+      delta: { type: 'input_json_delta', partial_json },
+    })),
+    { type: 'content_block_stop', index },
+  ];
+}
+
+describe('AnthropicProvider.streamMessage', () => {
+  it('should surface text deltas and complete tool calls', async () => {
+    const provider = providerWithEvents([
+      MESSAGE_START,
+      ...TEXT_BLOCK,
+      ...toolUseBlock(1, 'toolu_1', ['{"comm', 'and": "ls', ' /tmp"}']),
+      ...toolUseBlock(2, 'toolu_2', ['{"command": "ls /v']),
+      {
+        type: 'message_delta',
+        delta: { stop_reason: 'max_tokens', stop_sequence: null },
+        usage: { output_tokens: 30 },
+      },
+      { type: 'message_stop' },
+    ]);
+
+    const deltas: string[] = [];
+    const toolCalls: ToolCall[] = [];
+    const response = await provider.streamMessage(REQUEST, {
+      onTextDelta: (delta) => deltas.push(delta),
+      onToolCall: (toolCall) => toolCalls.push(toolCall),
+    });
+
+    expect(deltas).toEqual(['Listing ', 'files.']);
+    expect(toolCalls).toEqual([
+      { id: 'toolu_1', name: 'bash', input: { command: 'ls /tmp' } },
+    ]);
+    expect(response.text).toBe('Listing files.');
+    expect(response.toolCalls).toEqual(toolCalls);
+    expect(response.content).toHaveLength(2);
+    expect(response.stopReason).toBe('max_tokens');
+    expect(response.usage).toEqual({ input_tokens: 50, output_tokens: 30 });
+  });
+
+  it('should keep completed blocks when the stream is interrupted', async () => {
+    const provider = providerWithEvents([
+      MESSAGE_START,
+      ...TEXT_BLOCK,
+      ...toolUseBlock(1, 'toolu_1', ['{"command": "ls /tmp"}']),
+    ]);
+
+    const promise = provider.streamMessage(REQUEST, {});
+    await expect(promise).rejects.toBeInstanceOf(StreamInterruptedError);
+    const error = (await promise.catch((e) => e)) as StreamInterruptedError;
+    expect(error.partial?.toolCalls.map((call) => call.id)).toEqual([
+      'toolu_1',
+    ]);
+  });
+});
+
+describe('AnthropicProvider prompt caching', () => {
+  it('should mark the system prompt, tools and recent messages', async () => {
+    let body: Record<string, any> = {};
+    let betaHeader: string | null = null;
+    const client = new Anthropic({
+      apiKey: 'test',
+      maxRetries: 0,
+      fetch: async (_url: RequestInfo, init?: RequestInit) => {
+        body = JSON.parse(String(init?.body));
+        betaHeader = new Headers(init?.headers as HeadersInit).get(
+          'anthropic-beta'
+        );
+        return Response.json({
+          ...MESSAGE_START.message,
+          content: [{ type: 'text', text: 'Done.' }],
+          stop_reason: 'end_turn',
+          usage: {
+            input_tokens: 20,
+            output_tokens: 5,
+            cache_creation_input_tokens: 300,
+            cache_read_input_tokens: 1000,
+          },
+        });
+      },
+    });
+    const provider = new AnthropicProvider({ client });
+
+    const response = await provider.createMessage({
+      ...REQUEST,
+      tools: [bashTool, computerTool],
+      messages: [
+        { role: 'user', content: 'first' },
+        { role: 'assistant', content: 'ok' },
+        { role: 'user', content: 'second' },
+        { role: 'assistant', content: 'ok' },
+        { role: 'user', content: [{ type: 'text', text: 'third' }] },
+      ],
+      promptCaching: true,
+    });
+
+    const ephemeral = { type: 'ephemeral' };
+    expect(body.system[0].cache_control).toEqual(ephemeral);
+    expect(body.tools[0].cache_control).toBeUndefined();
+    expect(body.tools[1].cache_control).toEqual(ephemeral);
+    expect(
+      body.messages.map(
+        (message: { content: string | { cache_control?: object }[] }) =>
+          typeof message.content === 'string'
+            ? undefined
+            : message.content.at(-1)?.cache_control
+      )
+    ).toEqual([undefined, undefined, ephemeral, undefined, ephemeral]);
+    expect(betaHeader).toContain('prompt-caching-2024-07-31');
+    expect(response.usage).toEqual({
+      input_tokens: 20,
+      output_tokens: 5,
+      cache_creation_input_tokens: 300,
+      cache_read_input_tokens: 1000,
+    });
+  });
+});
+
+describe('AnthropicProvider tool versions', () => {
+  it('should send the beta header matching the tools', async () => {
+    const betaHeaders: (string | null)[] = [];
+    const client = new Anthropic({
+      apiKey: 'test',
+      maxRetries: 0,
+      fetch: async (_url: RequestInfo, init?: RequestInit) => {
+        betaHeaders.push(
+          new Headers(init?.headers as HeadersInit).get('anthropic-beta')
+        );
+        return Response.json({
+          ...MESSAGE_START.message,
+          content: [{ type: 'text', text: 'Done.' }],
+          stop_reason: 'end_turn',
+        });
+      },
+    });
+    const provider = new AnthropicProvider({ client });
+
+    await provider.createMessage({ ...REQUEST, tools: [bashTool] });
+    const { bash, computer } = toolVersions['20250124'];
+    await provider.createMessage({ ...REQUEST, tools: [bash, computer] });
+    await new AnthropicProvider({
+      client,
+      betas: ['computer-use-2024-10-22'],
+    }).createMessage({ ...REQUEST, tools: [computer] });
+
+    expect(betaHeaders).toEqual([
+      'computer-use-2024-10-22',
+      'computer-use-2025-01-24',
+      'computer-use-2024-10-22',
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'bun:test';
+import { toOpenAIMessages, toOpenAITool } from '../../lib/providers/openai';
+import { bashTool, computerTool } from '../../lib/tools';
+
+describe('toOpenAITool', () => {
+  it('maps built-in tools to function schemas', () => {
+    const bash = toOpenAITool(bashTool);
+    expect(bash.function.name).toBe('bash');
+    expect(bash.function.parameters.required).toEqual(['command']);
+
+    const computer = toOpenAITool(computerTool);
+    expect(computer.function.description).toContain('1024x768');
+  });
+
+  it('keeps the input schema of custom tools', () => {
+    const inputSchema = {
+      type: 'object' as const,
+      properties: { sql: { type: 'string' } },
+    };
+    const tool = toOpenAITool({
+      name: 'query',
+      description: 'Run a query',
+      input_schema: inputSchema,
+    });
+    expect(tool.function).toEqual({
+      name: 'query',
+      description: 'Run a query',
+      parameters: inputSchema,
+    });
+  });
+});
+
+describe('toOpenAIMessages', () => {
+  it('converts tool calls and tool results', () => {
+    const messages = toOpenAIMessages('be helpful', [
+      { role: 'user', content: 'take a screenshot' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Sure.' },
+          {
+            type: 'tool_use',
+            id: 'call_1',
+            name: 'computer',
+            input: { action: 'screenshot' },
+          },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: 'call_1',
+            content: [
+              {
+                type: 'image',
+                source: { type: 'base64', media_type: 'image/png', data: 'AA' },
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    expect(messages).toEqual([
+      { role: 'system', content: 'be helpful' },
+      { role: 'user', content: 'take a screenshot' },
+      {
+        role: 'assistant',
+        content: 'Sure.',
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: {
+              name: 'computer',
+              arguments: '{"action":"screenshot"}',
+            },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: '(no output)' },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'image_url',
+            image_url: { url: 'data:image/png;base64,AA' },
+          },
+        ],
+      },
+    ]);
+  });
+});
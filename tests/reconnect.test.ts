@@ -0,0 +1,119 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import {
+  Computer,
+  type ComputerOptions,
+  type ReconnectingEvent,
+} from '../lib/computer';
+import { ConnectionLostError } from '../lib/errors';
+import { MockComputerServer, type MockActionHandler } from '../lib/testing';
+
+describe('Reconnecting', () => {
+  let server: MockComputerServer;
+  let computer: Computer;
+  let running: boolean;
+
+  async function connect(
+    handler: MockActionHandler,
+    reconnect: ComputerOptions['reconnect']
+  ) {
+    server = new MockComputerServer({ handler });
+    await server.start();
+    running = true;
+    computer = new Computer({ logOutput: false, reconnect });
+    await computer.connect({ wsUrl: server.wsUrl, mcpUrl: server.mcpUrl });
+  }
+
+  // Drops the connection while the first command is in flight, answering it when it is replayed
+  function dropOnFirstReceipt(): MockActionHandler {
+    let received = 0;
+    return () => {
+      if (++received === 1) {
+        server.dropConnections();
+        return new Promise(() => {});
+      }
+      return { output: `answered attempt ${received}` };
+    };
+  }
+
+  afterEach(async () => {
+    await computer.close();
+    if (running) await server.stop();
+  });
+
+  it('should reconnect with backoff and resume the session', async () => {
+    await connect(() => ({ output: 'ok' }), {
+      initialDelayMs: 10,
+      jitter: 0,
+    });
+    const sessionId = computer.sessionId;
+    const attempts: ReconnectingEvent[] = [];
+    computer.on('reconnecting', (event) => attempts.push(event));
+    const reconnected = new Promise((resolve) =>
+      computer.once('reconnected', resolve)
+    );
+
+    server.dropConnections();
+    expect(await reconnected).toEqual({ attempt: 1, sessionId });
+    expect(attempts).toEqual([{ attempt: 1, delayMs: 10 }]);
+
+    const message = await computer.execute({
+      tool: 'bash',
+      params: { command: 'true' },
+    });
+    expect(message.metadata.session_id).toBe(sessionId!);
+  });
+
+  it('should replay in-flight commands when opted in', async () => {
+    await connect(dropOnFirstReceipt(), {
+      initialDelayMs: 10,
+      jitter: 0,
+      replayInFlight: true,
+    });
+
+    const message = await computer.execute({
+      tool: 'bash',
+      params: { command: 'make' },
+    });
+    expect(message.tool_result.output).toBe('answered attempt 2');
+    expect(server.receivedActions).toHaveLength(2);
+  });
+
+  it('should reject in-flight commands unless they are replayed', async () => {
+    await connect(dropOnFirstReceipt(), { initialDelayMs: 10, jitter: 0 });
+
+    await expect(
+      computer.execute({ tool: 'bash', params: { command: 'make' } })
+    ).rejects.toBeInstanceOf(ConnectionLostError);
+    const message = await computer.execute({
+      tool: 'bash',
+      params: { command: 'make' },
+    });
+    expect(message.tool_result.output).toBe('answered attempt 2');
+  });
+
+  it('should give up after maxAttempts', async () => {
+    await connect(() => new Promise(() => {}), {
+      maxAttempts: 2,
+      initialDelayMs: 10,
+      backoffFactor: 2,
+      jitter: 0,
+      replayInFlight: true,
+    });
+    const delays: number[] = [];
+    computer.on('reconnecting', ({ delayMs }) => delays.push(delayMs));
+
+    const pending = computer.execute({
+      tool: 'bash',
+      params: { command: 'sleep 100' },
+    });
+    await Bun.sleep(20);
+    await server.stop();
+    running = false;
+
+    await expect(pending).rejects.toThrow(
+      'Failed to reconnect after 2 attempts'
+    );
+    await expect(pending).rejects.toBeInstanceOf(ConnectionLostError);
+    expect(delays).toEqual([10, 20]);
+  });
+});
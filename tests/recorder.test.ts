@@ -0,0 +1,240 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Computer } from '../lib/computer';
+import { SessionRecorder, describeAction } from '../lib/recorder';
+import { MockComputerServer } from '../lib/testing';
+import { decodePng, encodePng } from '../lib/utils/png';
+
+const WIDTH = 160;
+const HEIGHT = 90;
+
+// Grey screen for screenshots taken by the recorder, white for those returned by actions
+function screen(value: number): string {
+  const data = new Uint8Array(WIDTH * HEIGHT * 4).fill(value);
+  return encodePng({ width: WIDTH, height: HEIGHT, data }).toString('base64');
+}
+
+function pixel(png: Buffer, x: number, y: number): number[] {
+  const image = decodePng(png);
+  const offset = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(offset, offset + 4));
+}
+
+describe('SessionRecorder', () => {
+  let server: MockComputerServer;
+  let computer: Computer;
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hdr-recorder-'));
+    server = new MockComputerServer({
+      handler: (action) => {
+        if (action.tool === 'bash') return { error: 'no such file' };
+        if (action.params.action === 'screenshot') {
+          return { base64_image: screen(128) };
+        }
+        if (action.params.action === 'type') {
+          return { output: 'typed', base64_image: screen(255) };
+        }
+        return { output: 'ok' };
+      },
+    });
+    await server.start();
+    computer = new Computer({ logOutput: false });
+    await computer.connect({ wsUrl: server.wsUrl, mcpUrl: server.mcpUrl });
+  });
+
+  afterAll(async () => {
+    await computer.close();
+    await server.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('should capture a frame after every command', async () => {
+    const recorder = computer.record();
+    await computer.click(40, 30);
+    await computer.type('hello');
+    await recorder.stop();
+    await computer.moveMouse(1, 1);
+
+    // Screenshots of the recorder run alongside later commands, so only their count is fixed
+    const actions = server.receivedActions.map((action) => action.params);
+    expect(actions.filter((params) => params.action !== 'screenshot')).toEqual([
+      { action: 'mouse_move', coordinate: [40, 30] },
+      { action: 'left_click' },
+      { action: 'type', text: 'hello' },
+      { action: 'mouse_move', coordinate: [1, 1] },
+    ]);
+    expect(actions).toHaveLength(6);
+    expect(
+      recorder.frames.map(({ action, marker }) => ({
+        action: action && describeAction(action),
+        marker,
+      }))
+    ).toEqual([
+      { action: 'mouse_move (40, 30)', marker: { x: 40, y: 30, click: false } },
+      { action: 'left_click', marker: { x: 40, y: 30, click: true } },
+      { action: 'type "hello"', marker: null },
+    ]);
+    expect(recorder.frames[2].result).toEqual({ output: 'typed', error: null });
+    expect(pixel(recorder.frames[2].png, 0, 0)).toEqual([255, 255, 255, 255]);
+    expect(recorder.recording).toBe(false);
+  });
+
+  it('should capture frames at an interval', async () => {
+    const recorder = computer.record({ actions: false, intervalMs: 10 });
+    await computer.press('Return');
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await recorder.stop();
+
+    expect(recorder.frames.length).toBeGreaterThan(0);
+    expect(recorder.frames.every((frame) => frame.action === null)).toBe(true);
+  });
+
+  it('should reuse the previous screenshot for commands of other tools', async () => {
+    const recorder = computer.record();
+    await computer.type('a');
+    await computer.bash('cat missing');
+    await recorder.stop();
+    const screenshots = () =>
+      server.receivedActions.filter(
+        (action) => action.params.action === 'screenshot'
+      );
+
+    expect(screenshots()).toEqual([]);
+    expect(recorder.frames).toHaveLength(2);
+    expect(recorder.frames[1].png).toBe(recorder.frames[0].png);
+
+    const all = computer.record({ screenshotTools: ['computer', 'bash'] });
+    await computer.bash('cat missing');
+    await all.stop();
+    expect(screenshots()).toHaveLength(1);
+    expect(pixel(all.frames[0].png, 0, 0)).toEqual([128, 128, 128, 128]);
+  });
+
+  it('should stop capturing at an interval once the computer closes', async () => {
+    const closing = new Computer({ logOutput: false });
+    await closing.connect({ wsUrl: server.wsUrl, mcpUrl: server.mcpUrl });
+    const recorder = closing.record({ actions: false, intervalMs: 10 });
+    await Bun.sleep(50);
+    await closing.close();
+    await Bun.sleep(20);
+    const captured = server.receivedActions.length;
+    await Bun.sleep(50);
+    await recorder.stop();
+
+    expect(captured).toBeGreaterThan(0);
+    expect(server.receivedActions).toHaveLength(captured);
+    expect(closing.isConnected()).toBe(false);
+  });
+
+  it('should render animations with markers and captions', async () => {
+    const recorder = computer.record();
+    await computer.click(40, 30);
+    await recorder.stop();
+
+    const apng = recorder.toApng({ width: 80 });
+    const chunkTypes: string[] = [];
+    for (let offset = 8; offset < apng.length; ) {
+      const length = apng.readUInt32BE(offset);
+      chunkTypes.push(apng.toString('latin1', offset + 4, offset + 8));
+      offset += length + 12;
+    }
+    expect(chunkTypes).toEqual([
+      'IHDR',
+      'acTL',
+      'fcTL',
+      'IDAT',
+      'fcTL',
+      'fdAT',
+      'IEND',
+    ]);
+
+    // Viewers without APNG support show the first frame: a mouse move to (40, 30)
+    const first = decodePng(apng);
+    expect([first.width, first.height]).toEqual([80, 45]);
+    const ring = pixel(apng, 20 + 5, 15);
+    expect(ring[2]).toBeGreaterThan(ring[0]);
+    expect(pixel(apng, 0, 44)[0]).toBeLessThan(128);
+    expect(pixel(apng, 70, 5)).toEqual([128, 128, 128, 128]);
+
+    const plain = recorder.toApng({ captions: false, markers: false });
+    expect(pixel(plain, 0, HEIGHT - 1)).toEqual([128, 128, 128, 128]);
+    expect(() => new SessionRecorder(computer).toApng()).toThrow(TypeError);
+  });
+
+  it('should export frames for video encoders', async () => {
+    const recorder = computer.record();
+    await computer.type('a');
+    await computer.press('b');
+    await recorder.stop();
+
+    const out = path.join(dir, 'frames');
+    const list = await recorder.exportFrames(out, { width: 81 });
+    expect(fs.readFileSync(list, 'utf8')).toBe(
+      [
+        'ffconcat version 1.0',
+        'file frame_00001.png',
+        'duration 0.5',
+        'file frame_00002.png',
+        'duration 0.5',
+        'file frame_00002.png',
+        '',
+      ].join('\n')
+    );
+    const frame = decodePng(fs.readFileSync(path.join(out, 'frame_00001.png')));
+    expect([frame.width, frame.height]).toEqual([80, 46]);
+  });
+
+  it('should write a self-contained HTML report', async () => {
+    const recorder = computer.record();
+    await computer.type('<script>alert(1)</script>');
+    await computer.bash('cat missing');
+    await recorder.stop();
+
+    const html = recorder.toHtml({ title: 'Report & review' });
+    expect(html).toStartWith('<!DOCTYPE html>');
+    expect(html).toContain('<title>Report &#38; review</title>');
+    expect(html).toContain(
+      'type &#34;&#60;script&#62;alert(1)&#60;/script&#62;&#34;'
+    );
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('$ cat missing</h2>');
+    expect(html).toContain('<pre class="error">no such file</pre>');
+    expect(html.match(/src="data:image\/png;base64,/g)).toHaveLength(2);
+  });
+
+  it('should describe actions', () => {
+    expect(
+      describeAction({
+        tool: 'computer',
+        params: { action: 'key', text: 'ctrl+s' },
+      })
+    ).toBe('key ctrl+s');
+    expect(
+      describeAction({
+        tool: 'bash',
+        params: { command: 'ls\n  -la' },
+      })
+    ).toBe('$ ls -la');
+    expect(
+      describeAction({
+        tool: 'str_replace_editor',
+        params: { command: 'create', path: '/tmp/a', file_text: '' },
+      })
+    ).toBe('create /tmp/a');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { Computer } from '../lib/computer';
+import { ComputerTimeoutError } from '../lib/errors';
+import type { Action } from '../lib/schemas/action';
+import { MockComputerServer, type MockActionHandler } from '../lib/testing';
+import type { ComputerMessage } from '../lib/types';
+
+// Answers `sleep <ms>; echo <text>` after the given delay with the text
+const delayedEcho: MockActionHandler = async (action) => {
+  const command = action.tool === 'bash' ? action.params.command : '';
+  const [, ms, text] = command.match(/^sleep (\d+); echo (.*)$/) ?? [];
+  await Bun.sleep(Number(ms ?? 0));
+  return { output: text ?? '' };
+};
+
+function bash(command: string): Action {
+  return { tool: 'bash', params: { command } };
+}
+
+describe('Request correlation', () => {
+  let server: MockComputerServer;
+  let computer: Computer;
+
+  async function connect(
+    options: ConstructorParameters<typeof MockComputerServer>[0],
+    computerOptions: ConstructorParameters<typeof Computer>[0] = {}
+  ) {
+    server = new MockComputerServer(options);
+    await server.start();
+    computer = new Computer({ logOutput: false, ...computerOptions });
+    await computer.connect({ wsUrl: server.wsUrl, mcpUrl: server.mcpUrl });
+  }
+
+  afterEach(async () => {
+    await computer.close();
+    await server.stop();
+  });
+
+  it('should match responses that arrive out of order', async () => {
+    await connect({ handler: delayedEcho });
+    const order: string[] = [];
+    const track = (promise: Promise<ComputerMessage>) =>
+      promise.then((message) => {
+        order.push(message.tool_result.output!);
+        return message.tool_result.output;
+      });
+
+    const results = await Promise.all([
+      track(computer.execute(bash('sleep 80; echo slow'))),
+      track(computer.execute(bash('sleep 0; echo fast'))),
+      track(computer.execute(bash('sleep 40; echo medium'))),
+    ]);
+    expect(results).toEqual(['slow', 'fast', 'medium']);
+    expect(order).toEqual(['fast', 'medium', 'slow']);
+  });
+
+  it('should answer the oldest command when the server does not echo request IDs', async () => {
+    await connect({ handler: delayedEcho, echoRequestId: false });
+    const unmatched: ComputerMessage[] = [];
+    computer.on('unmatched-message', (message) => unmatched.push(message));
+
+    expect(
+      (await computer.execute(bash('sleep 0; echo one'))).tool_result.output
+    ).toBe('one');
+    const results = await Promise.all(
+      ['two', 'three', 'four'].map((text) =>
+        computer.execute(bash(`sleep 0; echo ${text}`))
+      )
+    );
+    expect(results.map((message) => message.tool_result.output)).toEqual([
+      'two',
+      'three',
+      'four',
+    ]);
+    expect(unmatched).toEqual([]);
+  });
+
+  it('should not answer the next command with the late response of a timed out one', async () => {
+    await connect({ handler: delayedEcho, echoRequestId: false });
+    const unmatched: ComputerMessage[] = [];
+    computer.on('unmatched-message', (message) => unmatched.push(message));
+
+    await expect(
+      computer.execute(bash('sleep 60; echo slow'), { timeoutMs: 20 })
+    ).rejects.toBeInstanceOf(ComputerTimeoutError);
+    const fast = await computer.execute(bash('sleep 0; echo fast'));
+    const next = await computer.execute(bash('sleep 0; echo next'));
+
+    expect(fast.tool_result.output).toBe('fast');
+    expect(next.tool_result.output).toBe('next');
+    expect(unmatched.map((message) => message.tool_result.output)).toEqual([
+      'slow',
+    ]);
+  });
+
+  it('should not answer commands with messages the server pushes on its own', async () => {
+    await connect({ handler: delayedEcho });
+    const unmatched: ComputerMessage[] = [];
+    computer.on('unmatched-message', (message) => unmatched.push(message));
+    await computer.execute(bash('sleep 0; echo first'));
+
+    const pending = computer.execute(bash('sleep 40; echo answer'));
+    await Bun.sleep(10);
+    server.push({ output: 'notification' });
+
+    expect((await pending).tool_result.output).toBe('answer');
+    expect(unmatched.map((message) => message.tool_result.output)).toEqual([
+      'notification',
+    ]);
+  });
+
+  it('should time out commands without a timeout of their own', async () => {
+    await connect(
+      { handler: () => new Promise(() => {}) },
+      { defaultTimeoutMs: 50 }
+    );
+    await expect(
+      computer.execute(bash('sleep 100; echo never'))
+    ).rejects.toBeInstanceOf(ComputerTimeoutError);
+  });
+});
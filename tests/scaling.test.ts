@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { useComputer } from '../lib/agent';
+import { Computer } from '../lib/computer';
+import type {
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  ToolCall,
+} from '../lib/providers';
+import { CoordinateScaler } from '../lib/scaling';
+import { MockComputerServer } from '../lib/testing';
+import { decodePng, encodePng } from '../lib/utils/png';
+
+/**
+ * Provider that replies with a fixed sequence of turns and records every request
+ */
+class ScriptedProvider implements ModelProvider {
+  readonly name = 'scripted';
+  readonly model = 'scripted-model';
+  requests: ModelRequest[] = [];
+  private turns: { text: string; toolCalls?: ToolCall[] }[];
+
+  constructor(turns: { text: string; toolCalls?: ToolCall[] }[]) {
+    this.turns = turns;
+  }
+
+  async createMessage(request: ModelRequest): Promise<ModelResponse> {
+    this.requests.push(structuredClone({ ...request, signal: undefined }));
+    const { text, toolCalls = [] } = this.turns.shift() ?? { text: 'Done.' };
+    return {
+      text,
+      toolCalls,
+      content: [
+        { type: 'text', text },
+        ...toolCalls.map((call) => ({ type: 'tool_use' as const, ...call })),
+      ],
+      stopReason: toolCalls.length > 0 ? 'tool_use' : 'end_turn',
+      usage: { input_tokens: 100, output_tokens: 10 },
+    };
+  }
+}
+
+describe('CoordinateScaler', () => {
+  it('should pick a target with the screen aspect ratio', () => {
+    const size = (width: number, height: number) =>
+      CoordinateScaler.forScreen({ width, height }).model;
+    expect(size(2560, 1600)).toEqual({ width: 1280, height: 800 });
+    expect(size(2048, 1536)).toEqual({ width: 1024, height: 768 });
+    expect(size(3840, 2160)).toEqual({ width: 1366, height: 768 });
+    expect(size(3440, 1440)).toEqual({ width: 1280, height: 536 });
+    expect(size(1024, 768)).toEqual({ width: 1024, height: 768 });
+  });
+
+  it('should honour explicit targets', () => {
+    const screen = { width: 2560, height: 1600 };
+    expect(CoordinateScaler.forScreen(screen, 'XGA').model).toEqual({
+      width: 1024,
+      height: 640,
+    });
+    expect(CoordinateScaler.forScreen(screen, false).isIdentity).toBe(true);
+  });
+
+  it('should map coordinates in both directions', () => {
+    const scaler = CoordinateScaler.forScreen({ width: 2560, height: 1600 });
+    expect(scaler.toScreen([640, 400])).toEqual([1280, 800]);
+    expect(scaler.toScreen([1280, 800])).toEqual([2559, 1599]);
+    expect(scaler.toModel([1001, 33])).toEqual([501, 17]);
+    expect(
+      scaler.scaleToolResult({
+        output: 'X=2000,Y=1000',
+        error: null,
+        base64_image: null,
+        system: null,
+      }).output
+    ).toBe('X=1000,Y=500');
+  });
+
+  it('should leave screenshots it cannot decode unscaled', () => {
+    const scaler = CoordinateScaler.forScreen({ width: 2560, height: 1600 });
+    const png = encodePng({
+      width: 4,
+      height: 4,
+      data: new Uint8Array(4 * 4 * 4),
+    });
+    // Color type 5 does not exist
+    png[25] = 5;
+    const unsupported = png.toString('base64');
+    expect(scaler.scaleScreenshot(unsupported)).toBe(unsupported);
+    expect(scaler.scaleScreenshot('not a png')).toBe('not a png');
+  });
+});
+
+describe('useComputer scaling', () => {
+  let server: MockComputerServer;
+  let computer: Computer;
+  const screenshot = encodePng({
+    width: 2560,
+    height: 1600,
+    data: new Uint8Array(2560 * 1600 * 4).fill(200),
+  }).toString('base64');
+
+  beforeAll(async () => {
+    server = new MockComputerServer({
+      machineMetadata: { display_width: 2560, display_height: 1600 },
+      handler: (action) =>
+        action.tool === 'computer' && action.params.action === 'screenshot'
+          ? { base64_image: screenshot }
+          : { output: '' },
+    });
+    await server.start();
+    computer = new Computer({ logOutput: false });
+    await computer.connect({ wsUrl: server.wsUrl, mcpUrl: server.mcpUrl });
+  });
+
+  afterAll(async () => {
+    await computer.close();
+    await server.stop();
+  });
+
+  it('should show the model a scaled screen and map its clicks back', async () => {
+    const provider = new ScriptedProvider([
+      {
+        text: 'Looking.',
+        toolCalls: [
+          { id: 'call_1', name: 'computer', input: { action: 'screenshot' } },
+          {
+            id: 'call_2',
+            name: 'computer',
+            input: { action: 'mouse_move', coordinate: [640, 400] },
+          },
+        ],
+      },
+      { text: 'Done.' },
+    ]);
+
+    const result = await useComputer('click the middle', computer, {
+      provider,
+    });
+
+    expect(provider.requests[0].system).toContain('1280x800');
+    expect(
+      provider.requests[0].tools.find((tool) => tool.name === 'computer')
+    ).toMatchObject({ display_width_px: 1280, display_height_px: 800 });
+    expect(server.receivedActions[1]).toEqual({
+      tool: 'computer',
+      params: { action: 'mouse_move', coordinate: [1280, 800] },
+    });
+
+    const content = result.toolCalls[0].result.content;
+    const image = Array.isArray(content) ? content[0] : undefined;
+    expect(image?.type).toBe('image');
+    if (image?.type === 'image') {
+      const shown = decodePng(Buffer.from(image.source.data, 'base64'));
+      expect([shown.width, shown.height]).toEqual([1280, 800]);
+    }
+    expect(result.toolCalls[0].toolResult?.base64_image).toBe(screenshot);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { Computer } from '../lib/computer';
+import { SessionBusyError } from '../lib/errors';
+import type {
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  ToolCall,
+} from '../lib/providers';
+import { AgentSession } from '../lib/session';
+import { MockComputerServer } from '../lib/testing';
+
+/**
+ * Provider that replies with a fixed sequence of turns and records every conversation
+ */
+class ScriptedProvider implements ModelProvider {
+  readonly name = 'scripted';
+  readonly model = 'scripted-model';
+  conversations: ModelRequest['messages'][] = [];
+  onRequest?: () => void;
+  private turns: { text: string; toolCalls?: ToolCall[] }[];
+
+  constructor(turns: { text: string; toolCalls?: ToolCall[] }[]) {
+    this.turns = turns;
+  }
+
+  async createMessage(request: ModelRequest): Promise<ModelResponse> {
+    this.conversations.push(structuredClone(request.messages));
+    this.onRequest?.();
+    const { text, toolCalls = [] } = this.turns.shift() ?? { text: 'Done.' };
+    return {
+      text,
+      toolCalls,
+      content: [
+        { type: 'text', text },
+        ...toolCalls.map((call) => ({ type: 'tool_use' as const, ...call })),
+      ],
+      stopReason: toolCalls.length > 0 ? 'tool_use' : 'end_turn',
+      usage: { input_tokens: 100, output_tokens: 10 },
+    };
+  }
+}
+
+describe('AgentSession', () => {
+  let server: MockComputerServer;
+  let computer: Computer;
+
+  beforeAll(async () => {
+    server = new MockComputerServer();
+    await server.start();
+    computer = new Computer({ logOutput: false });
+    await computer.connect({ wsUrl: server.wsUrl, mcpUrl: server.mcpUrl });
+  });
+
+  afterAll(async () => {
+    await computer.close();
+    await server.stop();
+  });
+
+  it('should continue the conversation across objectives', async () => {
+    const provider = new ScriptedProvider([
+      {
+        text: 'Creating it.',
+        toolCalls: [
+          { id: 'call_1', name: 'bash', input: { command: 'touch notes.txt' } },
+        ],
+      },
+      { text: 'Created notes.txt.' },
+      { text: 'Opened notes.txt.' },
+    ]);
+    const session = computer.session({ provider });
+
+    await session.do('create notes.txt');
+    const result = await session.do('now open the file you just made');
+
+    expect(result.finalText).toBe('Opened notes.txt.');
+    expect(provider.conversations[2]).toHaveLength(5);
+    expect(provider.conversations[2][4]).toEqual({
+      role: 'user',
+      content: 'now open the file you just made',
+    });
+    expect(session.transcript).toHaveLength(6);
+
+    const restored = AgentSession.fromJSON(computer, JSON.stringify(session), {
+      provider,
+    });
+    expect(restored.transcript).toEqual(session.transcript);
+    expect(restored.toJSON().usage.input_tokens).toBe(300);
+    expect(restored.toJSON().runs).toBe(2);
+  });
+
+  it('should deliver injected messages during a run', async () => {
+    const provider = new ScriptedProvider([
+      { text: 'Working on it.' },
+      { text: 'Used the dark theme.' },
+    ]);
+    const session = new AgentSession(computer, { provider });
+    let concurrent: Promise<unknown> | undefined;
+    provider.onRequest = () => {
+      if (provider.conversations.length === 1) {
+        session.inject('use the dark theme');
+        concurrent = session.do('something else');
+      }
+    };
+
+    const result = await session.do('style the page');
+    await expect(concurrent).rejects.toBeInstanceOf(SessionBusyError);
+
+    expect(result.iterations).toBe(2);
+    expect(result.finalText).toBe('Used the dark theme.');
+    expect(provider.conversations[1].at(-1)).toEqual({
+      role: 'user',
+      content: 'use the dark theme',
+    });
+    expect(session.isRunning).toBe(false);
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from 'bun:test';
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { Computer } from '../lib/computer';
+import { MockComputerServer } from '../lib/testing';
+import type { OutputChunk } from '../lib/types';
+
+// Printed by the mock server after each command to tell where its output ends
+const DONE = '__mock_done__\n';
+
+describe('Shell', () => {
+  let server: MockComputerServer;
+  let computer: Computer;
+  const sessions = new Map<string, ChildProcessWithoutNullStreams>();
+
+  /**
+   * Runs a command in a persistent bash process per session, started again once it exits
+   */
+  function runInSession(
+    session: string,
+    command: string
+  ): Promise<{ stdout: string; stderr: string }> {
+    let shell = sessions.get(session);
+    if (!shell || shell.exitCode !== null || shell.signalCode !== null) {
+      shell = spawn('bash');
+      sessions.set(session, shell);
+    }
+    const current = shell;
+    return new Promise((resolve) => {
+      let stdout = '';
+      let stderr = '';
+      const finish = () => {
+        current.stdout.off('data', onStdout);
+        current.stderr.off('data', onStderr);
+        current.off('close', finish);
+        resolve({
+          stdout: stdout.endsWith(DONE)
+            ? stdout.slice(0, -DONE.length)
+            : stdout,
+          stderr: stderr.endsWith(DONE)
+            ? stderr.slice(0, -DONE.length)
+            : stderr,
+        });
+      };
+      const check = () => {
+        if (stdout.endsWith(DONE) && stderr.endsWith(DONE)) finish();
+      };
+      const onStdout = (data: Buffer) => {
+        stdout += data;
+        check();
+      };
+      const onStderr = (data: Buffer) => {
+        stderr += data;
+        check();
+      };
+      current.stdout.on('data', onStdout);
+      current.stderr.on('data', onStderr);
+      current.on('close', finish);
+      current.stdin.write(
+        `${command}\nprintf ${DONE.trim()}'\\n'; printf ${DONE.trim()}'\\n' >&2\n`
+      );
+    });
+  }
+
+  beforeAll(async () => {
+    server = new MockComputerServer({
+      // Runs bash commands in persistent shells on this machine, like the server, and
+      // streams their output in small pieces
+      handler: async (action, output) => {
+        if (action.tool !== 'bash') return { output: '' };
+        const { command, session = '' } = action.params;
+        const result = await runInSession(session, command);
+        for (let i = 0; i < result.stdout.length; i += 5) {
+          output({ stream: 'stdout', data: result.stdout.slice(i, i + 5) });
+        }
+        if (result.stderr) output({ stream: 'stderr', data: result.stderr });
+        return { output: result.stdout || null, error: result.stderr || null };
+      },
+    });
+    await server.start();
+    computer = new Computer({ logOutput: false });
+    await computer.connect({ wsUrl: server.wsUrl, mcpUrl: server.mcpUrl });
+  });
+
+  afterAll(async () => {
+    await computer.close();
+    await server.stop();
+    for (const shell of sessions.values()) shell.kill();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('should report exit codes and keep output intact', async () => {
+    const ok = await computer.bash('printf "a\\nb\\n"; echo oops >&2');
+    expect(ok).toMatchObject({
+      exitCode: 0,
+      stdout: 'a\nb\n',
+      stderr: 'oops\n',
+    });
+    expect(ok.durationMs).toBeGreaterThanOrEqual(0);
+
+    expect(await computer.bash('printf partial; false')).toMatchObject({
+      exitCode: 1,
+      stdout: 'partial',
+    });
+    expect((await computer.bash('sleep 0 & # background')).exitCode).toBe(0);
+    expect(await computer.bash(`echo "it's"`)).toMatchObject({
+      exitCode: 0,
+      stdout: "it's\n",
+    });
+  });
+
+  it('should keep the state of a session between commands', async () => {
+    await computer.bash('cd /tmp && export GREETING=hi');
+    expect((await computer.bash('echo "$PWD $GREETING"')).stdout).toBe(
+      '/tmp hi\n'
+    );
+    expect(
+      (await computer.bash('echo "$PWD $GREETING"', { session: 'other' }))
+        .stdout
+    ).not.toBe('/tmp hi\n');
+    expect((await computer.bash('echo "$PWD"', { cwd: '/' })).stdout).toBe(
+      '/\n'
+    );
+    expect((await computer.bash('pwd')).stdout).toBe('/tmp\n');
+  });
+
+  it('should report the exit code of commands that end the shell', async () => {
+    expect((await computer.bash('exit 7')).exitCode).toBe(7);
+    expect(await computer.bash('set -e; false; echo after')).toMatchObject({
+      exitCode: 1,
+      stdout: '',
+    });
+    expect((await computer.bash(`exec sh -c 'exit 4'`)).exitCode).toBeNull();
+    expect((await computer.bash('true')).exitCode).toBe(0);
+  });
+
+  it('should apply the working directory, environment and timeout itself', async () => {
+    const build = computer.shell('build', {
+      cwd: '/tmp',
+      env: { STAGE: 'test', REGION: 'eu' },
+    });
+
+    const result = await build.run('echo "$PWD $STAGE $REGION"', {
+      env: { REGION: "u's" },
+    });
+    expect(result.stdout).toBe("/tmp test u's\n");
+    expect((await build.run('echo "$PWD $STAGE $REGION"')).stdout).toBe(
+      '/tmp test eu\n'
+    );
+    await computer.bash('true', { session: 'deploy' });
+    await computer.bash('true');
+
+    const [first, second, third, fourth] = server.receivedActions.map(
+      (action) => action.params
+    );
+    expect(first).toEqual({ command: expect.any(String), session: 'build' });
+    expect(first.command).toContain(
+      "cd -- '/tmp' && export STAGE='test' REGION='eu' && (export REGION='u'\\''s' && {"
+    );
+    expect(second.command).not.toContain('cd --');
+    expect(third).toEqual({ command: expect.any(String), session: 'deploy' });
+    expect(fourth).toEqual({ command: expect.any(String) });
+
+    expect((await computer.bash('sleep 5', { timeout: 0.1 })).exitCode).toBe(
+      124
+    );
+    expect(
+      (await computer.bash('true', { cwd: '/nonexistent' })).exitCode
+    ).toBe(1);
+    await expect(
+      computer.bash('true', { env: { 'A;B': '' } })
+    ).rejects.toBeInstanceOf(TypeError);
+  });
+
+  it('should stream output without the exit status trailer', async () => {
+    const stream = computer.bashStream('printf "one\\ntwo\\n"; echo oops >&2');
+    const chunks: OutputChunk[] = [];
+    let next = await stream.next();
+    for (; !next.done; next = await stream.next()) chunks.push(next.value);
+
+    const stdout = chunks.filter((chunk) => chunk.stream === 'stdout');
+    expect(stdout.length).toBeGreaterThan(1);
+    expect(stdout.map((chunk) => chunk.data).join('')).toBe('one\ntwo\n');
+    expect(chunks.at(-1)).toEqual({ stream: 'stderr', data: 'oops\n' });
+    expect(next.value).toMatchObject({ exitCode: 0, stdout: 'one\ntwo\n' });
+
+    const seen: string[] = [];
+    const result = await computer.bash('printf abc; exit 3', {
+      onOutput: (chunk) => seen.push(chunk.data),
+    });
+    expect(seen.join('')).toBe('abc');
+    expect(result.exitCode).toBe(3);
+  });
+
+  it('should stream the output of any command', async () => {
+    const chunks: string[] = [];
+    const stream = computer.executeStream({
+      tool: 'bash',
+      params: { command: 'seq 1 5' },
+    });
+    for await (const chunk of stream) chunks.push(chunk.data);
+    expect(chunks.join('')).toBe('1\n2\n3\n4\n5\n');
+
+    const silent = await computer.execute({
+      tool: 'bash',
+      params: { command: 'echo quiet' },
+    });
+    expect(silent.tool_result.output).toBe('quiet\n');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  buildSystemPrompt,
+  mergeSystemPromptOptions,
+} from '../lib/systemPrompt';
+import type { MachineMetadata } from '../lib/types';
+
+const METADATA: MachineMetadata = {
+  display_height: 800,
+  display_width: 1280,
+  display_num: 2,
+  arch: 'aarch64',
+  machine_id: null,
+  access_token: null,
+};
+
+describe('buildSystemPrompt', () => {
+  it('should describe the machine from its metadata', () => {
+    const prompt = buildSystemPrompt(METADATA);
+    expect(prompt).toContain('an Ubuntu virtual machine using aarch64');
+    expect(prompt).toContain('1280x800');
+    expect(prompt).toContain('(DISPLAY=:2 xterm &)');
+    expect(prompt).toContain('firefox-esr');
+  });
+
+  it('should apply presets and extra instructions', () => {
+    const prompt = buildSystemPrompt(METADATA, {
+      preset: 'fedora',
+      display: ':0',
+      instructions: 'Never close the terminal.',
+    });
+    expect(prompt).toContain('a Fedora virtual machine');
+    expect(prompt).toContain('dnf');
+    expect(prompt).toContain('DISPLAY=:0');
+    expect(prompt).not.toContain('firefox-esr');
+    expect(prompt.endsWith('Never close the terminal.')).toBe(true);
+  });
+
+  it('should let an override replace the prompt', () => {
+    expect(buildSystemPrompt(METADATA, { override: 'Be brief.' })).toBe(
+      'Be brief.'
+    );
+    const prompt = buildSystemPrompt(METADATA, {
+      override: ({ preset, defaultPrompt }) =>
+        `${preset.osName}\n${defaultPrompt.length > 0}`,
+    });
+    expect(prompt).toBe('Ubuntu\ntrue');
+  });
+});
+
+describe('mergeSystemPromptOptions', () => {
+  it('should keep instructions from every source', () => {
+    expect(
+      mergeSystemPromptOptions(
+        { preset: 'debian', instructions: 'Use the staging database.' },
+        'Reply in French.'
+      )
+    ).toEqual({
+      preset: 'debian',
+      instructions: 'Use the staging database.\nReply in French.',
+    });
+  });
+});
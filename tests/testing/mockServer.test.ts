@@ -0,0 +1,152 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from 'bun:test';
+import { Computer, type ConnectOptions } from '../../lib/computer';
+import {
+  AbortError,
+  ComputerTimeoutError,
+  ToolExecutionError,
+} from '../../lib/errors';
+import { MockComputerServer } from '../../lib/testing';
+
+describe('MockComputerServer', () => {
+  let server: MockComputerServer;
+  let computer: Computer;
+  let connectOptions: ConnectOptions;
+
+  beforeAll(async () => {
+    server = new MockComputerServer({
+      mcpTools: [
+        {
+          tool: {
+            name: 'echo',
+            inputSchema: {
+              type: 'object',
+              properties: { text: { type: 'string' } },
+            },
+          },
+          handler: (args) => ({
+            content: [{ type: 'text', text: String(args.text) }],
+          }),
+        },
+      ],
+    });
+    await server.start();
+    connectOptions = { wsUrl: server.wsUrl, mcpUrl: server.mcpUrl };
+
+    computer = new Computer({
+      logOutput: false,
+      reconnect: { initialDelayMs: 10, jitter: 0, replayInFlight: true },
+    });
+    await computer.connect(connectOptions);
+  });
+
+  afterAll(async () => {
+    await computer.close();
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('should send the welcome message', async () => {
+    expect(computer.sessionId).toBeDefined();
+    const metadata = await computer.getMetadata();
+    expect(metadata.display_width).toBe(1024);
+  });
+
+  it('should answer actions and record them', async () => {
+    server.enqueue({ output: 'hello world' });
+    const message = await computer.execute({
+      tool: 'bash',
+      params: { command: 'echo hello world' },
+    });
+    expect(message.tool_result.output).toBe('hello world');
+    expect(server.receivedActions).toEqual([
+      { tool: 'bash', params: { command: 'echo hello world' } },
+    ]);
+  });
+
+  it('should correlate concurrent commands', async () => {
+    const [screenshot, cursor] = await Promise.all([
+      computer.screenshot(),
+      computer.execute({
+        tool: 'computer',
+        params: { action: 'cursor_position' },
+      }),
+    ]);
+    expect(screenshot).toBeString();
+    expect(cursor.tool_result.output).toMatch(/X=\d+,Y=\d+/);
+  });
+
+  it('should throw ToolExecutionError when opted in', async () => {
+    server.enqueue({ error: 'command not found' });
+    const promise = computer.execute(
+      { tool: 'bash', params: { command: 'nope' } },
+      { throwOnToolError: true }
+    );
+    await expect(promise).rejects.toBeInstanceOf(ToolExecutionError);
+  });
+
+  it('should time out and send a cancel frame', async () => {
+    const slowServer = new MockComputerServer({
+      handler: () => new Promise(() => {}),
+    });
+    await slowServer.start();
+    const slowComputer = new Computer({ logOutput: false });
+    await slowComputer.connect({
+      wsUrl: slowServer.wsUrl,
+      mcpUrl: slowServer.mcpUrl,
+    });
+
+    const promise = slowComputer.execute(
+      { tool: 'bash', params: { command: 'sleep 100' } },
+      { timeoutMs: 50, sendCancel: true }
+    );
+    await expect(promise).rejects.toBeInstanceOf(ComputerTimeoutError);
+    await promise.catch(() => {});
+    await Bun.sleep(20);
+    expect(slowServer.cancelledRequests).toHaveLength(1);
+
+    const controller = new AbortController();
+    const aborted = slowComputer.execute(
+      { tool: 'bash', params: { command: 'sleep 100' } },
+      { signal: controller.signal }
+    );
+    controller.abort();
+    await expect(aborted).rejects.toBeInstanceOf(AbortError);
+
+    await slowComputer.close();
+    await slowServer.stop();
+  });
+
+  it('should reconnect and resume the session', async () => {
+    const sessionId = computer.sessionId;
+    const reconnected = new Promise((resolve) =>
+      computer.once('reconnected', resolve)
+    );
+    server.dropConnections();
+    await reconnected;
+
+    const message = await computer.execute({
+      tool: 'bash',
+      params: { command: 'true' },
+    });
+    expect(message.metadata.session_id).toBe(sessionId!);
+  });
+
+  it('should register MCP servers and call MCP tools', async () => {
+    const serverInfo = await computer.startMcpServer('echo', 'npx echo');
+    expect(serverInfo.tools.map((tool) => tool.name)).toEqual(['echo']);
+    expect(server.registeredServers[0].name).toBe('echo');
+
+    const result = await computer.callMcpTool('echo', { text: 'hi' });
+    expect(result.content).toEqual([{ type: 'text', text: 'hi' }]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ReplayDivergenceError } from '../../lib/errors';
+import { ReplayComputer } from '../../lib/testing';
+
+const SESSION_ID = '7b0f1a8e-3c52-4f5e-9d8a-1f2b3c4d5e6f';
+
+function message(id: string, result: Record<string, unknown>) {
+  return {
+    raw_input: '',
+    tool_result: {
+      output: null,
+      error: null,
+      base64_image: null,
+      system: null,
+      ...result,
+    },
+    metadata: {
+      session_id: SESSION_ID,
+      message_id: id,
+      request_timestamp: '2025-01-01T00:00:00.000Z',
+      response_timestamp: '2025-01-01T00:00:01.000Z',
+    },
+  };
+}
+
+const RECORDING = [
+  message('00000000-0000-4000-8000-000000000001', {
+    system: JSON.stringify({
+      display_height: 768,
+      display_width: 1024,
+      display_num: 1,
+      arch: 'x86_64',
+      machine_id: null,
+      access_token: null,
+    }),
+  }),
+  { tool: 'bash', params: { command: 'echo hello' }, request_id: 'a' },
+  message('00000000-0000-4000-8000-000000000002', { output: 'hello' }),
+  {
+    tool: 'computer',
+    params: { action: 'screenshot' },
+    request_id: 'b',
+  },
+  {
+    ...message('00000000-0000-4000-8000-000000000003', {}),
+    screenshot_file: 'computer_logs/run/screenshot_1.png',
+  },
+];
+
+describe('ReplayComputer', () => {
+  let runDir: string;
+
+  beforeAll(() => {
+    runDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hdr-replay-'));
+    fs.writeFileSync(
+      path.join(runDir, 'conversation.jsonl'),
+      RECORDING.map((entry) => JSON.stringify(entry)).join('\n') + '\n'
+    );
+    fs.writeFileSync(path.join(runDir, 'screenshot_1.png'), 'png');
+  });
+
+  afterAll(() => {
+    fs.rmSync(runDir, { recursive: true });
+  });
+
+  it('should replay recorded responses in strict mode', async () => {
+    const computer = new ReplayComputer(runDir);
+    await computer.connect();
+
+    expect(computer.sessionId).toBe(SESSION_ID);
+    expect((await computer.getMetadata()).display_width).toBe(1024);
+
+    const result = await computer.execute({
+      tool: 'bash',
+      params: { command: 'echo hello' },
+    });
+    expect(result.tool_result.output).toBe('hello');
+    expect(await computer.screenshot()).toBe(
+      Buffer.from('png').toString('base64')
+    );
+    expect(computer.getReport()).toEqual({
+      recorded: 2,
+      matched: 2,
+      divergences: [],
+      unused: [],
+    });
+  });
+
+  it('should throw on divergence in strict mode', async () => {
+    const computer = new ReplayComputer(runDir);
+    await computer.connect();
+
+    const promise = computer.screenshot();
+    await expect(promise).rejects.toBeInstanceOf(ReplayDivergenceError);
+    expect(computer.getReport().divergences[0].kind).toBe('mismatched-action');
+  });
+
+  it('should substitute similar actions in lenient mode', async () => {
+    const computer = new ReplayComputer(runDir, { mode: 'lenient' });
+    await computer.connect();
+
+    const screenshot = await computer.screenshot();
+    expect(screenshot).toBeString();
+
+    const result = await computer.execute({
+      tool: 'bash',
+      params: { command: 'echo goodbye' },
+    });
+    expect(result.tool_result.output).toBe('hello');
+
+    const unexpected = await computer.execute({
+      tool: 'computer',
+      params: { action: 'left_click' },
+    });
+    expect(unexpected.tool_result.error).toBeString();
+
+    const report = computer.getReport();
+    expect(report.matched).toBe(1);
+    expect(report.divergences.map((divergence) => divergence.kind)).toEqual([
+      'mismatched-action',
+      'unexpected-action',
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from 'bun:test';
+import { Computer } from '../lib/computer';
+import { AbortError, ComputerTimeoutError } from '../lib/errors';
+import type { Action } from '../lib/schemas/action';
+import { MockComputerServer } from '../lib/testing';
+import type { ComputerMessage } from '../lib/types';
+
+const slowCommand: Action = { tool: 'bash', params: { command: 'sleep 1' } };
+
+describe('Timeouts and cancellation', () => {
+  let server: MockComputerServer;
+  let computer: Computer;
+
+  beforeAll(async () => {
+    // Commands containing 'sleep' are answered after 100ms, everything else at once
+    server = new MockComputerServer({
+      handler: async (action) => {
+        if (action.tool === 'bash' && action.params.command.includes('sleep')) {
+          await Bun.sleep(100);
+          return { output: 'late' };
+        }
+        return { output: 'ok' };
+      },
+    });
+    await server.start();
+    computer = new Computer({ logOutput: false });
+    await computer.connect({ wsUrl: server.wsUrl, mcpUrl: server.mcpUrl });
+  });
+
+  afterAll(async () => {
+    await computer.close();
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('should reject with ComputerTimeoutError and drop the late response', async () => {
+    const unmatched: ComputerMessage[] = [];
+    const onUnmatched = (message: ComputerMessage) => unmatched.push(message);
+    computer.on('unmatched-message', onUnmatched);
+
+    const promise = computer.execute(slowCommand, { timeoutMs: 20 });
+    await expect(promise).rejects.toBeInstanceOf(ComputerTimeoutError);
+    await expect(promise).rejects.toThrow(
+      "No response to 'bash' command within 20ms"
+    );
+    await Bun.sleep(120);
+    computer.off('unmatched-message', onUnmatched);
+
+    expect(unmatched.map((message) => message.tool_result.output)).toEqual([
+      'late',
+    ]);
+    expect(server.cancelledRequests).toEqual([]);
+  });
+
+  it('should send a cancel frame when asked to', async () => {
+    await expect(
+      computer.execute(slowCommand, { timeoutMs: 20, sendCancel: true })
+    ).rejects.toBeInstanceOf(ComputerTimeoutError);
+    await Bun.sleep(20);
+    expect(server.cancelledRequests).toHaveLength(1);
+  });
+
+  it('should reject with AbortError when the signal aborts', async () => {
+    const controller = new AbortController();
+    const promise = computer.execute(slowCommand, {
+      signal: controller.signal,
+      sendCancel: true,
+    });
+    await Bun.sleep(10);
+    controller.abort();
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+    await Bun.sleep(20);
+    expect(server.cancelledRequests).toHaveLength(1);
+  });
+
+  it('should not send commands whose signal has already aborted', async () => {
+    await expect(
+      computer.execute(slowCommand, { signal: AbortSignal.abort() })
+    ).rejects.toBeInstanceOf(AbortError);
+    expect(server.receivedActions).toEqual([]);
+
+    // A response before the timeout resolves as usual
+    const message = await computer.execute(
+      { tool: 'bash', params: { command: 'true' } },
+      { timeoutMs: 1000 }
+    );
+    expect(message.tool_result.output).toBe('ok');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'bun:test';
+import type { ToolCall } from '../lib/providers';
+import {
+  defaultToolConcurrency,
+  ToolCallScheduler,
+} from '../lib/toolScheduling';
+
+function call(id: string, name: string, input = {}): ToolCall {
+  return { id, name, input };
+}
+
+describe('defaultToolConcurrency', () => {
+  it('should classify built-in and MCP tools', () => {
+    expect(defaultToolConcurrency(call('1', 'computer'))).toBe('exclusive');
+    expect(defaultToolConcurrency(call('2', 'bash'))).toBe('exclusive');
+    expect(
+      defaultToolConcurrency(
+        call('3', 'str_replace_editor', { command: 'view' })
+      )
+    ).toBe('shared');
+    expect(
+      defaultToolConcurrency(
+        call('4', 'str_replace_editor', { command: 'create' })
+      )
+    ).toBe('exclusive');
+    expect(defaultToolConcurrency(call('5', 'search_docs'))).toBe(
+      'independent'
+    );
+  });
+});
+
+describe('ToolCallScheduler', () => {
+  it('should overlap independent and shared calls but serialize exclusive ones', async () => {
+    const scheduler = new ToolCallScheduler(defaultToolConcurrency);
+    const log: string[] = [];
+    const run = (id: string, ms: number) => async () => {
+      log.push(`start ${id}`);
+      await Bun.sleep(ms);
+      log.push(`end ${id}`);
+      return id;
+    };
+
+    const results = await Promise.all([
+      scheduler.schedule(call('click', 'computer'), run('click', 20)),
+      scheduler.schedule(call('mcp', 'search_docs'), run('mcp', 5)),
+      scheduler.schedule(
+        call('view1', 'str_replace_editor', { command: 'view' }),
+        run('view1', 10)
+      ),
+      scheduler.schedule(
+        call('view2', 'str_replace_editor', { command: 'view' }),
+        run('view2', 10)
+      ),
+      scheduler.schedule(call('type', 'computer'), run('type', 1)),
+    ]);
+
+    expect(results).toEqual(['click', 'mcp', 'view1', 'view2', 'type']);
+    expect(log.indexOf('end mcp')).toBeLessThan(log.indexOf('end click'));
+    expect(log.indexOf('start view1')).toBeGreaterThan(
+      log.indexOf('end click')
+    );
+    expect(log.indexOf('start view2')).toBeLessThan(log.indexOf('end view1'));
+    expect(log.indexOf('start type')).toBeGreaterThan(log.indexOf('end view2'));
+  });
+
+  it('should run every call in order when no classifier is given', async () => {
+    const scheduler = new ToolCallScheduler();
+    const log: string[] = [];
+    const first = scheduler.schedule(call('1', 'search_docs'), async () => {
+      await Bun.sleep(5);
+      log.push('first');
+      throw new Error('failed');
+    });
+    const second = scheduler.schedule(call('2', 'search_docs'), async () => {
+      log.push('second');
+    });
+
+    await expect(first).rejects.toThrow('failed');
+    await expect(second).rejects.toThrow('failed');
+    expect(log).toEqual(['first']);
+  });
+});
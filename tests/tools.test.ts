@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, afterAll, spyOn } from 'bun:test';
+import { useComputer } from '../lib/agent';
+import { Computer } from '../lib/computer';
+import { AnthropicProvider } from '../lib/providers';
+import { Action } from '../lib/schemas/action';
+import { MockComputerServer } from '../lib/testing';
+import {
+  bashTool,
+  computerTool,
+  computerUseBeta,
+  toolVersionOf,
+  toolVersions,
+} from '../lib/tools';
+
+describe('toolVersionOf', () => {
+  it('should detect the version of the computer use tools', () => {
+    const { bash, computer, edit } = toolVersions['20250124'];
+    expect(toolVersionOf([bashTool, computerTool])).toBe('20241022');
+    expect(toolVersionOf([bash, computer, edit])).toBe('20250124');
+    expect(toolVersionOf([])).toBeNull();
+    expect(computerUseBeta([edit])).toBe('computer-use-2025-01-24');
+  });
+});
+
+describe('Action', () => {
+  it('should accept the actions of computer_20250124', () => {
+    const scroll = {
+      tool: 'computer',
+      params: {
+        action: 'scroll',
+        coordinate: [100, 200],
+        scroll_direction: 'down',
+        scroll_amount: 3,
+      },
+    };
+    expect(Action.parse(scroll)).toEqual(scroll);
+
+    const click = {
+      tool: 'computer',
+      params: { action: 'left_click', coordinate: [5, 6], text: 'shift' },
+    };
+    expect(Action.parse(click)).toEqual(click);
+
+    const drag = {
+      tool: 'computer',
+      params: { action: 'left_click_drag', coordinate: [5, 6] },
+    };
+    expect(Action.parse(drag)).toEqual(drag);
+  });
+
+  it('should accept coordinates as an alias of coordinate', () => {
+    expect(
+      Action.parse({
+        tool: 'computer',
+        params: { action: 'mouse_move', coordinates: [1, 2] },
+      })
+    ).toEqual({
+      tool: 'computer',
+      params: { action: 'mouse_move', coordinate: [1, 2] },
+    });
+  });
+});
+
+describe('Computer tool versions', () => {
+  let server: MockComputerServer;
+
+  beforeAll(async () => {
+    server = new MockComputerServer({
+      machineMetadata: { display_width: 1280, display_height: 800 },
+    });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('should register the tools of the chosen version', async () => {
+    const computer = new Computer({
+      logOutput: false,
+      toolVersion: '20250124',
+    });
+    await computer.connect({ wsUrl: server.wsUrl, mcpUrl: server.mcpUrl });
+    await computer.getMetadata();
+
+    expect(computer.listComputerUseTools()).toEqual([
+      { name: 'bash', type: 'bash_20250124' },
+      {
+        name: 'computer',
+        type: 'computer_20250124',
+        display_width_px: 1280,
+        display_height_px: 800,
+      },
+    ]);
+    await computer.close();
+  });
+
+  it('should run the default model of the chosen version', async () => {
+    const models: string[] = [];
+    const createMessage = spyOn(
+      AnthropicProvider.prototype,
+      'createMessage'
+    ).mockImplementation(async function (this: AnthropicProvider) {
+      models.push(this.model);
+      return {
+        text: 'Done.',
+        toolCalls: [],
+        content: [],
+        stopReason: 'end_turn',
+        usage: { input_tokens: 1, output_tokens: 1 },
+      };
+    });
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    process.env.ANTHROPIC_API_KEY ??= 'test';
+
+    try {
+      for (const toolVersion of ['20241022', '20250124'] as const) {
+        const computer = new Computer({ logOutput: false, toolVersion });
+        await computer.connect({ wsUrl: server.wsUrl, mcpUrl: server.mcpUrl });
+        await useComputer('look around', computer);
+        await useComputer('look around', computer, { model: 'claude-custom' });
+        await computer.close();
+      }
+    } finally {
+      createMessage.mockRestore();
+      if (apiKey === undefined) delete process.env.ANTHROPIC_API_KEY;
+    }
+
+    expect(models).toEqual([
+      'claude-3-5-sonnet-20241022',
+      'claude-custom',
+      'claude-3-7-sonnet-20250219',
+      'claude-custom',
+    ]);
+  });
+});
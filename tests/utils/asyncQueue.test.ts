@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'bun:test';
+import { AsyncQueue, iterate } from '../../lib/utils/asyncQueue';
+
+describe('AsyncQueue', () => {
+  it('should deliver buffered and later values in order', async () => {
+    const queue = new AsyncQueue<number>();
+    queue.push(1);
+    setTimeout(() => {
+      queue.push(2);
+      queue.end();
+      queue.push(3);
+    }, 5);
+
+    const values: number[] = [];
+    for await (const value of queue) values.push(value);
+    expect(values).toEqual([1, 2]);
+  });
+
+  it('should throw after delivering buffered values', async () => {
+    const queue = new AsyncQueue<number>();
+    queue.push(1);
+    queue.fail(new Error('boom'));
+
+    expect(await queue.next()).toEqual({ value: 1, done: false });
+    await expect(queue.next()).rejects.toThrow('boom');
+  });
+});
+
+describe('iterate', () => {
+  it('should yield reported values and return the result', async () => {
+    const stream = iterate<number, string>(async (push) => {
+      push(1);
+      await Bun.sleep(1);
+      push(2);
+      return 'done';
+    });
+    const values: number[] = [];
+    let next = await stream.next();
+    for (; !next.done; next = await stream.next()) values.push(next.value);
+
+    expect(values).toEqual([1, 2]);
+    expect(next.value).toBe('done');
+  });
+
+  it('should abort the operation when the loop ends early', async () => {
+    let aborted = false;
+    const stream = iterate<number, void>(
+      (push, signal) =>
+        new Promise((resolve) => {
+          push(1);
+          signal.addEventListener('abort', () => {
+            aborted = true;
+            resolve();
+          });
+        })
+    );
+    for await (const value of stream) {
+      expect(value).toBe(1);
+      break;
+    }
+    expect(aborted).toBe(true);
+  });
+
+  it('should abort the operation when the given signal aborts', async () => {
+    const controller = new AbortController();
+    const stream = iterate<number, string>(
+      (push, signal) =>
+        new Promise((resolve, reject) => {
+          push(1);
+          signal.addEventListener('abort', () => reject(signal.reason));
+        }),
+      controller.signal
+    );
+    expect(await stream.next()).toEqual({ value: 1, done: false });
+    controller.abort(new Error('stopped'));
+    await expect(stream.next()).rejects.toThrow('stopped');
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'bun:test';
+import { getBackoffDelay } from '../../lib/utils/backoff';
+
+const OPTIONS = {
+  initialDelayMs: 500,
+  maxDelayMs: 10000,
+  backoffFactor: 2,
+  jitter: 0,
+};
+
+describe('getBackoffDelay', () => {
+  it('grows exponentially with each attempt', () => {
+    expect(getBackoffDelay(1, OPTIONS)).toBe(500);
+    expect(getBackoffDelay(2, OPTIONS)).toBe(1000);
+    expect(getBackoffDelay(3, OPTIONS)).toBe(2000);
+  });
+
+  it('never exceeds maxDelayMs', () => {
+    expect(getBackoffDelay(20, OPTIONS)).toBe(10000);
+  });
+
+  it('applies jitter as a fraction of the delay', () => {
+    const options = { ...OPTIONS, jitter: 0.5 };
+    expect(getBackoffDelay(2, options, () => 0)).toBe(1000);
+    expect(getBackoffDelay(2, options, () => 0.5)).toBe(750);
+    expect(getBackoffDelay(2, options, () => 0.999)).toBeGreaterThanOrEqual(
+      500
+    );
+  });
+});
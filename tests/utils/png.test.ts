@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'bun:test';
+import { deflateSync } from 'zlib';
+import {
+  crc32,
+  decodePng,
+  encodeApng,
+  encodePng,
+  resizeImage,
+  type RgbaImage,
+} from '../../lib/utils/png';
+
+function chunk(type: string, body: Uint8Array): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length, 0);
+  header.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), body])), 0);
+  return Buffer.concat([header, body, crc]);
+}
+
+function png(
+  width: number,
+  height: number,
+  bitDepth: number,
+  colorType: number,
+  interlace: number,
+  scanlines: Buffer,
+  extra: Buffer[] = []
+): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = bitDepth;
+  header[9] = colorType;
+  header[12] = interlace;
+  return Buffer.concat([
+    Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]),
+    chunk('IHDR', header),
+    ...extra,
+    chunk('IDAT', deflateSync(scanlines)),
+    chunk('IEND', new Uint8Array(0)),
+  ]);
+}
+
+function gradient(width: number, height: number): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set([i % 256, (i * 7) % 256, (i * 13) % 256, 255 - (i % 50)], i * 4);
+  }
+  return { width, height, data };
+}
+
+describe('encodePng and decodePng', () => {
+  it('should round-trip RGBA images', () => {
+    const image = gradient(37, 23);
+    expect(decodePng(encodePng(image))).toEqual(image);
+  });
+
+  it('should decode interlaced RGB images', () => {
+    const width = 13;
+    const height = 11;
+    const rgb = (x: number, y: number) => [
+      (x * 20) % 256,
+      (y * 23) % 256,
+      (x * y) % 256,
+    ];
+    const passes = [
+      [0, 0, 8, 8],
+      [4, 0, 8, 8],
+      [0, 4, 4, 8],
+      [2, 0, 4, 4],
+      [0, 2, 2, 4],
+      [1, 0, 2, 2],
+      [0, 1, 1, 2],
+    ];
+    const lines: number[] = [];
+    for (const [startX, startY, stepX, stepY] of passes) {
+      for (let y = startY; y < height; y += stepY) {
+        if (startX >= width) continue;
+        lines.push(0);
+        for (let x = startX; x < width; x += stepX) lines.push(...rgb(x, y));
+      }
+    }
+
+    const image = decodePng(png(width, height, 8, 2, 1, Buffer.from(lines)));
+
+    expect(Array.from(image.data.subarray(0, 8))).toEqual([
+      ...rgb(0, 0),
+      255,
+      ...rgb(1, 0),
+      255,
+    ]);
+    const last = (width * height - 1) * 4;
+    expect(Array.from(image.data.subarray(last))).toEqual([
+      ...rgb(width - 1, height - 1),
+      255,
+    ]);
+  });
+
+  it('should decode 2-bit palette images with transparency', () => {
+    // Indices 0 1 2 3 0 packed into two bytes per row
+    const scanlines = Buffer.from([0, 0b00011011, 0b00000000]);
+    const palette = chunk(
+      'PLTE',
+      Buffer.from([255, 0, 0, 0, 255, 0, 0, 0, 255, 9, 9, 9])
+    );
+    const transparency = chunk('tRNS', Buffer.from([128]));
+
+    const image = decodePng(
+      png(5, 1, 2, 3, 0, scanlines, [palette, transparency])
+    );
+
+    expect(Array.from(image.data)).toEqual([
+      255, 0, 0, 128, 0, 255, 0, 255, 0, 0, 255, 255, 9, 9, 9, 255, 255, 0, 0,
+      128,
+    ]);
+  });
+
+  it('should reject data that is not a PNG', () => {
+    expect(() => decodePng(Buffer.from('not a png'))).toThrow(TypeError);
+  });
+});
+
+describe('resizeImage', () => {
+  it('should average the pixels covered by each target pixel', () => {
+    const image: RgbaImage = {
+      width: 2,
+      height: 2,
+      data: new Uint8Array([
+        0, 0, 0, 255, 100, 100, 100, 255, 100, 100, 100, 255, 200, 200, 200,
+        255,
+      ]),
+    };
+    expect(resizeImage(image, 1, 1).data).toEqual(
+      new Uint8Array([100, 100, 100, 255])
+    );
+    expect(resizeImage(image, 4, 4).width).toBe(4);
+  });
+});
+
+describe('encodeApng', () => {
+  it('should encode frames with their delays', () => {
+    const first = gradient(8, 6);
+    const second = gradient(8, 6);
+    second.data.fill(200);
+    const apng = encodeApng([
+      { image: first, delayMs: 250 },
+      { image: second, delayMs: 1000 },
+    ]);
+
+    const chunks: { type: string; body: Buffer }[] = [];
+    for (let offset = 8; offset < apng.length; ) {
+      const length = apng.readUInt32BE(offset);
+      chunks.push({
+        type: apng.toString('latin1', offset + 4, offset + 8),
+        body: apng.subarray(offset + 8, offset + 8 + length),
+      });
+      offset += length + 12;
+    }
+    expect(chunks.map(({ type }) => type)).toEqual([
+      'IHDR',
+      'acTL',
+      'fcTL',
+      'IDAT',
+      'fcTL',
+      'fdAT',
+      'IEND',
+    ]);
+    // Two frames, looping forever
+    expect(chunks[1].body.readUInt32BE(0)).toBe(2);
+    expect(chunks[1].body.readUInt32BE(4)).toBe(0);
+    expect(chunks[4].body.readUInt16BE(20)).toBe(1000);
+    expect(chunks[5].body.readUInt32BE(0)).toBe(2);
+    expect(decodePng(apng)).toEqual(first);
+  });
+
+  it('should reject missing or mismatched frames', () => {
+    expect(() => encodeApng([])).toThrow(TypeError);
+    expect(() =>
+      encodeApng([
+        { image: gradient(4, 4), delayMs: 100 },
+        { image: gradient(4, 5), delayMs: 100 },
+      ])
+    ).toThrow('Frame 1 is 4x5, expected 4x4');
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'bun:test';
+import { estimateCost } from '../../lib/utils/pricing';
+
+describe('estimateCost', () => {
+  it('prices input and output tokens separately', () => {
+    const cost = estimateCost('claude-3-5-sonnet-20241022', {
+      input_tokens: 1_000_000,
+      output_tokens: 100_000,
+    });
+    expect(cost).toBeCloseTo(4.5);
+  });
+
+  it('uses a custom price table', () => {
+    const cost = estimateCost(
+      'my-model',
+      { input_tokens: 500_000, output_tokens: 500_000 },
+      { 'my-model': { inputPerMillion: 1, outputPerMillion: 2 } }
+    );
+    expect(cost).toBeCloseTo(1.5);
+  });
+
+  it('prices prompt cache reads and writes', () => {
+    const cost = estimateCost('claude-3-5-sonnet-20241022', {
+      input_tokens: 0,
+      output_tokens: 0,
+      cache_creation_input_tokens: 1_000_000,
+      cache_read_input_tokens: 1_000_000,
+    });
+    expect(cost).toBeCloseTo(3.75 + 0.3);
+  });
+
+  it('returns null for unknown models', () => {
+    expect(
+      estimateCost('unknown', { input_tokens: 1, output_tokens: 1 })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'bun:test';
+import { ComputerAction } from '../../lib/schemas/computerActions';
+import {
+  formatIssues,
+  validateJsonSchema,
+  zodIssues,
+  type JsonSchema,
+} from '../../lib/utils/validation';
+
+const SEARCH_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    query: { type: 'string', minLength: 1 },
+    limit: { type: 'integer', minimum: 1, maximum: 50 },
+    sort: { enum: ['relevance', 'date'] },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['query'],
+  additionalProperties: false,
+};
+
+describe('validateJsonSchema', () => {
+  it('should accept valid input', () => {
+    expect(
+      validateJsonSchema(SEARCH_SCHEMA, {
+        query: 'zod',
+        limit: 10,
+        sort: 'date',
+        tags: ['docs'],
+      })
+    ).toEqual([]);
+  });
+
+  it('should report every problem with its path', () => {
+    const issues = validateJsonSchema(SEARCH_SCHEMA, {
+      limit: 1.5,
+      sort: 'stars',
+      tags: ['docs', 3],
+      page: 2,
+    });
+    expect(formatIssues(issues)).toBe(
+      [
+        '- query: Required',
+        '- limit: Expected integer, received number',
+        '- sort: Expected one of "relevance", "date"',
+        '- tags[1]: Expected string, received integer',
+        "- page: Unrecognized property 'page'",
+      ].join('\n')
+    );
+  });
+
+  it('should check anyOf and oneOf', () => {
+    const schema: JsonSchema = {
+      oneOf: [{ type: 'string' }, { type: 'number', minimum: 0 }],
+    };
+    expect(validateJsonSchema(schema, 'x')).toEqual([]);
+    expect(validateJsonSchema(schema, -1)).toEqual([
+      { path: [], message: 'Does not match any of the allowed schemas' },
+    ]);
+  });
+});
+
+describe('zodIssues', () => {
+  it('should format built-in action errors relative to params', () => {
+    const parsed = ComputerAction.safeParse({
+      tool: 'computer',
+      params: { action: 'mouse_move', coordinate: [10, 'x'] },
+    });
+    expect(parsed.success).toBe(false);
+    expect(formatIssues(zodIssues(parsed.error!, 1))).toBe(
+      '- coordinate[1]: Expected number, received string'
+    );
+  });
+});